@@ -14,10 +14,27 @@ export { defaultPaths } from "./src/config.js";
 // Re-export all services
 // ─────────────────────────────────────────────────────────────
 export * from "./src/services/installations.js";
+export * from "./src/services/discovery.js";
+export * from "./src/services/project.js";
+export * from "./src/services/staging.js";
+export * from "./src/services/uninstall.js";
+export * from "./src/services/current.js";
 // Re-export Java types explicitly to avoid conflicts
 export type {
   JavaRelease,
   JavaVersionsInfo,
+  EnsureJavaStage,
+  EnsureJavaOptions,
+  JavaProviderOptions,
+  JavaReleasePin,
+  JavaReleaseHistoryOptions,
+  JavaResolveOptions,
+  JavaResolution,
+  JavaInstallableVersionsOptions,
+  JavaDownloadOptions,
+  JavaUpdate,
+  JavaUpgradeResult,
+  UpgradeJavaOptions,
 } from "./src/services/java.service.js";
 export type {
   JavaInfo,
@@ -29,13 +46,36 @@ export type {
 export { JavaInfoService, getJavaInfo } from "./src/services/java.service.js";
 // export * from "./src/services/installations.js"; // Removed duplicate
 
+// ─────────────────────────────────────────────────────────────
+// Re-export distribution providers
+// ─────────────────────────────────────────────────────────────
+export type {
+  JavaDistributionProvider,
+  JavaReleaseQuery,
+  JavaFeatureVersions,
+  JavaImageType,
+  JavaJvmImpl,
+  JavaReleasePage,
+  JavaReleaseType,
+} from "./src/services/providers/provider.js";
+export * from "./src/services/providers/adoptium.js";
+export * from "./src/services/providers/zulu.js";
+export * from "./src/services/providers/corretto.js";
+export * from "./src/services/providers/graalvm.js";
+export * from "./src/services/providers/foojay.js";
+
 // ─────────────────────────────────────────────────────────────
 // Re-export all utilities
 // ─────────────────────────────────────────────────────────────
+export * from "./src/utils/binary.js";
 export * from "./src/utils/commands.js";
+export * from "./src/utils/download.js";
+export * from "./src/utils/retry.js";
 export * from "./src/utils/file.js";
 export * from "./src/utils/folder.js";
 export * from "./src/utils/validator.js";
+export * from "./src/utils/version.js";
+export * from "./src/utils/requirement.js";
 
 // ─────────────────────────────────────────────────────────────
 // Re-export types for better TypeScript support
@@ -1,13 +1,86 @@
 export const ADOPTIUM_API_BASE_URL = "https://api.adoptium.net/v3";
 
+export const AZUL_API_BASE_URL = "https://api.azul.com/metadata/v1";
+
+export const CORRETTO_DOWNLOADS_BASE_URL = "https://corretto.aws/downloads";
+
+export const CORRETTO_INDEX_URL =
+  "https://raw.githubusercontent.com/corretto/corretto-downloads/main/latest_links/indexmap_with_checksum.json";
+
+export const GRAALVM_RELEASES_API_URL =
+  "https://api.github.com/repos/graalvm/graalvm-ce-builds/releases";
+
+export const FOOJAY_API_BASE_URL = "https://api.foojay.io/disco/v3.0";
+
 export const ADOPTIUM_ARCH_MAP: Record<string, string | undefined> = {
   x32: "x32",
+  ia32: "x32",
   x64: "x64",
   x86_64: "x64",
+  arm: "arm",
   arm64: "aarch64",
 };
 
+// Adoptium arch names -> Azul metadata API `arch` values
+export const ZULU_ARCH_MAP: Record<string, string | undefined> = {
+  x32: "i686",
+  x64: "x64",
+  arm: "aarch32hf",
+  aarch64: "aarch64",
+};
+
+// Adoptium OS names -> Azul metadata API `os` values
+export const ZULU_OS_MAP: Record<string, string | undefined> = {
+  windows: "windows",
+  linux: "linux",
+  mac: "macos",
+};
+
+// Adoptium arch names -> Corretto download arch names
+export const CORRETTO_ARCH_MAP: Record<string, string | undefined> = {
+  x32: "x86",
+  x64: "x64",
+  arm: "arm",
+  aarch64: "aarch64",
+};
+
+// Adoptium OS names -> Corretto download OS names
+export const CORRETTO_OS_MAP: Record<string, string | undefined> = {
+  windows: "windows",
+  linux: "linux",
+  mac: "macos",
+};
+
+// Adoptium arch names -> GraalVM CE asset arch names (no 32-bit builds)
+export const GRAALVM_ARCH_MAP: Record<string, string | undefined> = {
+  x64: "x64",
+  aarch64: "aarch64",
+};
+
+// Adoptium OS names -> GraalVM CE asset OS names
+export const GRAALVM_OS_MAP: Record<string, string | undefined> = {
+  windows: "windows",
+  linux: "linux",
+  mac: "macos",
+};
+
+// Adoptium arch names -> foojay Disco API `architecture` values
+export const FOOJAY_ARCH_MAP: Record<string, string | undefined> = {
+  x32: "x86",
+  x64: "x64",
+  arm: "arm",
+  aarch64: "aarch64",
+};
+
+// Adoptium OS names -> foojay Disco API `operating_system` values
+export const FOOJAY_OS_MAP: Record<string, string | undefined> = {
+  windows: "windows",
+  linux: "linux",
+  mac: "macos",
+};
+
 export const SYSTEM_ARCH_MAP: Record<string, string | undefined> = {
+  ia32: "x86",
   arm: "arm",
   arm64: "aarch64",
   x64: "x86_64",
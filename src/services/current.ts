@@ -0,0 +1,67 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { env } from "../platforms/env.js";
+import type { InstalledJavaVersion } from "./installations.js";
+
+export const CURRENT_LINK_PREFIX = "current-";
+
+/**
+ * Name of the link pointing at the current patch of a feature version,
+ * e.g. "current-21" or "current-21-jre".
+ */
+export function getCurrentJavaLinkName(
+  featureVersion: number,
+  imageType: "jdk" | "jre" = "jdk",
+): string {
+  return `${CURRENT_LINK_PREFIX}${featureVersion}${imageType === "jre" ? "-jre" : ""}`;
+}
+
+/**
+ * Points the `current-<feature>` link inside `root` at an installation. The
+ * new link replaces the old one with a rename, so readers never see it
+ * missing; Windows uses a junction, which cannot be renamed over.
+ * @returns The path of the link.
+ */
+export async function setCurrentJava(
+  root: string,
+  java: InstalledJavaVersion,
+): Promise<string> {
+  const link = path.join(root, getCurrentJavaLinkName(java.featureVersion, java.imageType));
+
+  if (env.isWindows()) {
+    await fs.rm(link, { force: true });
+    await fs.symlink(path.resolve(java.installPath), link, "junction");
+    return link;
+  }
+
+  // Relative, so the folder can be moved
+  const target = path.relative(root, java.installPath);
+  const temporary = path.join(root, `.${path.basename(link)}-${process.pid}`);
+  await fs.rm(temporary, { force: true });
+  await fs.symlink(target, temporary);
+  await fs.rename(temporary, link);
+  return link;
+}
+
+/**
+ * Reads the `current-<feature>` links inside `root`.
+ * @returns The real path of the home each link points to, by link path. Dangling links are left out.
+ */
+export async function readCurrentJavaLinks(root: string): Promise<Map<string, string>> {
+  const links = new Map<string, string>();
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch {
+    return links;
+  }
+  for (const name of names) {
+    if (!name.startsWith(CURRENT_LINK_PREFIX)) continue;
+    const link = path.join(root, name);
+    try {
+      if (!(await fs.lstat(link)).isSymbolicLink()) continue;
+      links.set(link, await fs.realpath(link));
+    } catch {}
+  }
+  return links;
+}
@@ -0,0 +1,206 @@
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import {
+  scanJavaInstallations,
+  type InstalledJavaVersion,
+  type ScanJavaOptions,
+} from "./installations.js";
+
+export type JavaInstallationSource =
+  | "sdkman" // ~/.sdkman/candidates/java
+  | "asdf" // ~/.asdf/installs/java
+  | "jabba" // ~/.jabba/jdk
+  | "jenv" // ~/.jenv/versions
+  | "mise" // ~/.local/share/mise/installs/java
+  | "homebrew" // <prefix>/opt/openjdk*
+  | "intellij" // ~/.jdks, ~/Library/Java/JavaVirtualMachines
+  | "gradle" // ~/.gradle/jdks
+  | "maven" // jdkHome entries of ~/.m2/toolchains.xml
+  | "vscode"; // JRE bundled with the Red Hat Java extension
+
+export interface DiscoveredJavaInstallation extends InstalledJavaVersion {
+  source: JavaInstallationSource; // tool that manages the installation
+}
+
+export interface DiscoverJavaOptions extends ScanJavaOptions {
+  /** Sources to look in; all when omitted. */
+  sources?: JavaInstallationSource[];
+  /** Home directory the tool folders are resolved against (default `os.homedir()`). */
+  homeDir?: string;
+  /** Environment read for `SDKMAN_DIR`, `HOMEBREW_PREFIX`, `GRADLE_USER_HOME`... (default `process.env`). */
+  environment?: Record<string, string | undefined>;
+}
+
+interface SourceContext {
+  homeDir: string;
+  environment: Record<string, string | undefined>;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────
+
+// Homebrew prefixes on Apple Silicon, Intel macOS and Linux
+const HOMEBREW_PREFIXES = ["/opt/homebrew", "/usr/local", "/home/linuxbrew/.linuxbrew"];
+
+// Only these entries of Homebrew's opt directory are JDKs
+const HOMEBREW_JDK_PATTERN = /^openjdk(?:@\d+)?$/;
+
+// VS Code extension folders, e.g. redhat.java-1.30.0-linux-x64
+const VSCODE_JAVA_EXTENSION_PATTERN = /^redhat\.java-/;
+const VSCODE_EXTENSION_DIRS = [".vscode", ".vscode-insiders", ".vscode-server", ".vscode-oss"];
+
+/** Resolves links to the real path of a directory, or null if it is missing. */
+async function resolveDirectory(target: string): Promise<string | null> {
+  try {
+    const real = await fs.realpath(target);
+    return (await fs.stat(real)).isDirectory() ? real : null;
+  } catch {
+    return null; // missing or dangling link
+  }
+}
+
+/**
+ * Lists the real paths of the directories inside a folder. Links (jenv
+ * versions, SDKMAN's `current`, mise aliases, Homebrew opt links) are
+ * resolved and duplicates dropped.
+ */
+async function listHomes(root: string, pattern?: RegExp): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch {
+    return []; // tool not installed
+  }
+
+  const homes = new Set<string>();
+  for (const name of names) {
+    if (name.startsWith(".")) continue;
+    if (pattern && !pattern.test(name)) continue;
+    const home = await resolveDirectory(path.join(root, name));
+    if (home) homes.add(home);
+  }
+  return [...homes];
+}
+
+/**
+ * Reads the `jdkHome` of every JDK toolchain in a Maven `toolchains.xml`.
+ * `${env.NAME}` and `${user.home}` references are expanded.
+ */
+export function parseMavenToolchains(
+  content: string,
+  context: { homeDir: string; environment: Record<string, string | undefined> },
+): string[] {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, "");
+  const homes: string[] = [];
+  for (const [, toolchain] of xml.matchAll(/<toolchain>([\s\S]*?)<\/toolchain>/g)) {
+    if (!/<type>\s*jdk\s*<\/type>/.test(toolchain!)) continue;
+    const jdkHome = toolchain!.match(/<jdkHome>\s*([^<]+?)\s*<\/jdkHome>/)?.[1];
+    if (!jdkHome) continue;
+    homes.push(
+      jdkHome.replace(/\$\{(env\.[\w]+|user\.home)\}/g, (_, name: string) =>
+        name === "user.home"
+          ? context.homeDir
+          : (context.environment[name.slice("env.".length)] ?? ""),
+      ),
+    );
+  }
+  return homes;
+}
+
+/** Java homes listed by each source. Tool-specific environment variables win over the default locations. */
+const SOURCE_HOMES: Record<
+  JavaInstallationSource,
+  (context: SourceContext) => Promise<string[]>
+> = {
+  sdkman: ({ homeDir, environment }) =>
+    listHomes(path.join(environment.SDKMAN_DIR ?? path.join(homeDir, ".sdkman"), "candidates", "java")),
+  asdf: ({ homeDir, environment }) =>
+    listHomes(path.join(environment.ASDF_DATA_DIR ?? path.join(homeDir, ".asdf"), "installs", "java")),
+  jabba: ({ homeDir, environment }) =>
+    listHomes(path.join(environment.JABBA_HOME ?? path.join(homeDir, ".jabba"), "jdk")),
+  jenv: ({ homeDir, environment }) =>
+    listHomes(path.join(environment.JENV_ROOT ?? path.join(homeDir, ".jenv"), "versions")),
+  mise: ({ homeDir, environment }) =>
+    listHomes(
+      path.join(
+        environment.MISE_DATA_DIR ??
+          path.join(environment.XDG_DATA_HOME ?? path.join(homeDir, ".local", "share"), "mise"),
+        "installs",
+        "java",
+      ),
+    ),
+  homebrew: async ({ environment }) => {
+    const prefixes = environment.HOMEBREW_PREFIX ? [environment.HOMEBREW_PREFIX] : HOMEBREW_PREFIXES;
+    const homes = await Promise.all(
+      prefixes.map((prefix) => listHomes(path.join(prefix, "opt"), HOMEBREW_JDK_PATTERN)),
+    );
+    return homes.flat();
+  },
+  intellij: async ({ homeDir }) => [
+    ...(await listHomes(path.join(homeDir, ".jdks"))),
+    // IntelliJ downloads to the user's JavaVirtualMachines folder on macOS
+    ...(await listHomes(path.join(homeDir, "Library", "Java", "JavaVirtualMachines"))),
+  ],
+  gradle: ({ homeDir, environment }) =>
+    listHomes(path.join(environment.GRADLE_USER_HOME ?? path.join(homeDir, ".gradle"), "jdks")),
+  maven: async ({ homeDir, environment }) => {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(homeDir, ".m2", "toolchains.xml"), "utf8");
+    } catch {
+      return [];
+    }
+    const homes = await Promise.all(
+      parseMavenToolchains(content, { homeDir, environment }).map(resolveDirectory),
+    );
+    return homes.filter((home): home is string => home !== null);
+  },
+  vscode: async ({ homeDir }) => {
+    const homes: string[] = [];
+    for (const dir of VSCODE_EXTENSION_DIRS) {
+      const extensions = await listHomes(
+        path.join(homeDir, dir, "extensions"),
+        VSCODE_JAVA_EXTENSION_PATTERN,
+      );
+      for (const extension of extensions) {
+        homes.push(...(await listHomes(path.join(extension, "jre"))));
+      }
+    }
+    return homes;
+  },
+};
+
+// ─────────────────────────────────────────────────────────────
+// Main Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Finds the JDKs installed by version managers, package managers, IDEs and
+ * build tools (SDKMAN, asdf, jabba, jenv, mise, Homebrew, IntelliJ, Gradle,
+ * Maven toolchains, VS Code). Each installation is reported once, tagged with
+ * the first source that lists it.
+ */
+export async function discoverJavaInstallations(
+  options: DiscoverJavaOptions = {},
+): Promise<DiscoveredJavaInstallation[]> {
+  const {
+    sources = Object.keys(SOURCE_HOMES) as JavaInstallationSource[],
+    homeDir = os.homedir(),
+    environment = process.env,
+    ...scanOptions
+  } = options;
+
+  const found = new Map<string, DiscoveredJavaInstallation>();
+  for (const source of sources) {
+    for (const home of await SOURCE_HOMES[source]({ homeDir, environment })) {
+      for (const java of await scanJavaInstallations(home, scanOptions)) {
+        if (!found.has(java.installPath)) {
+          found.set(java.installPath, { ...java, source });
+        }
+      }
+    }
+  }
+  return [...found.values()];
+}
@@ -3,32 +3,123 @@ import fs from "node:fs/promises";
 import { env } from "../platforms/env.js";
 import { FileUtils } from "../utils/file.js";
 import { isSuccess } from "../utils/validator.js";
+import {
+  probeJavaProperties,
+  type JavaRuntimeProperties,
+} from "../utils/commands.js";
+import { normalizeOSName, readBinaryInfo } from "../utils/binary.js";
+import {
+  compareJavaVersions,
+  parseJavaVersion,
+  type JavaVersion,
+} from "../utils/version.js";
+import {
+  parseJavaRequirement,
+  satisfiesJavaRequirement,
+  sortByJavaPreference,
+  type JavaRequirement,
+} from "../utils/requirement.js";
 
 export interface InstalledJavaVersion {
   featureVersion: number; // e.g. 8, 11, 17, 21
+  version: JavaVersion; // full version, e.g. 21.0.3+9 (only the feature when the name has no more)
   folderName: string; // e.g. "jdk-21.0.3+9" or "8_x86_64_windows"
   installPath: string; // Full path to installation
   binPath: string; // Path to bin directory
   javaExecutable: string; // Path to java executable
   arch: string; // e.g. "x86_64", "aarch64"
   os: string; // e.g. "windows", "linux", "macos"
+  bits?: 32 | 64; // from the java executable's header, when readable
+  architectures?: string[]; // every slice of a macOS universal java executable; `arch` is the first
   isValid: boolean; // true if java executable exists
+  imageType: "jdk" | "jre"; // "jre" when bin has no javac
+  isGraalVM: boolean; // true for GraalVM homes
+  hasNativeImage: boolean; // true if bin contains the native-image tool
+  implementor?: string; // from the release file, e.g. "Eclipse Adoptium"
+  vendor?: string; // normalized, e.g. "temurin", "zulu", "corretto" (see normalizeJavaVendor)
+  modules?: string[]; // from the release file, e.g. ["java.base", "java.logging"]
+  runtime?: JavaRuntimeProperties; // properties reported by the binary, in deep scans
+  aliases?: string[]; // links pointing to this home or into it, when following symlinks
 }
 
+export interface ScanJavaOptions {
+  /**
+   * Run each java binary with `-XshowSettings:properties` and prefer what it
+   * reports; binaries that fail to run are marked invalid (default false).
+   */
+  deep?: boolean;
+  /**
+   * Follow symbolic links (e.g. SDKMAN's `current`, Homebrew's `opt` links).
+   * Homes are reported by their real path and list the links in `aliases`;
+   * each directory is visited once, so link cycles are safe (default false).
+   */
+  followSymlinks?: boolean;
+}
+
+/**
+ * Metadata from the `release` file at the root of a Java home, e.g.
+ * `JAVA_VERSION="21.0.3"`. Only the keys the scanner uses are typed.
+ */
+export interface JavaReleaseFile {
+  JAVA_VERSION?: string; // e.g. "21.0.3", "1.8.0_392"
+  JAVA_RUNTIME_VERSION?: string; // e.g. "21.0.3+9-LTS"
+  IMPLEMENTOR?: string; // e.g. "Eclipse Adoptium"
+  OS_NAME?: string; // e.g. "Linux", "Windows", "Darwin"
+  OS_ARCH?: string; // e.g. "x86_64", "amd64", "aarch64"
+  MODULES?: string; // space-separated module names
+  [key: string]: string | undefined;
+}
+
+// Normalized vendor names, checked in order against implementor strings and folder names
+const VENDOR_PATTERNS: Array<[string, RegExp]> = [
+  ["graalvm", /graalvm/i], // before "oracle": "Oracle GraalVM"
+  ["openj9", /openj9|semeru|\bibm\b/i],
+  ["temurin", /temurin|adoptium|adoptopenjdk/i],
+  ["zulu", /zulu|azul/i],
+  ["corretto", /corretto|amazon/i],
+  ["liberica", /liberica|bellsoft/i],
+  ["microsoft", /microsoft/i],
+  ["sapmachine", /sapmachine|\bsap\b/i],
+  ["dragonwell", /dragonwell|alibaba/i],
+  ["jetbrains", /jetbrains|\bjbr/i],
+  ["redhat", /red ?hat/i],
+  ["oracle", /oracle/i],
+];
+
 // ─────────────────────────────────────────────────────────────
 // Helper Functions
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Extracts Java version from a folder name.
+ * Maps a vendor string (release file `IMPLEMENTOR`, `java.vendor`, a folder
+ * name) to a normalized vendor: "temurin", "zulu", "corretto", "graalvm",
+ * "liberica", "oracle", "microsoft", "sapmachine", "openj9", "dragonwell",
+ * "jetbrains" or "redhat".
+ * @returns The vendor, or null if the text names none of them.
  */
-function extractJavaVersion(folderName: string): number | null {
+export function normalizeJavaVendor(text: string): string | null {
+  return VENDOR_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+// SDKMAN, mise: 21.0.3-tem, 22.0.1; also matches other tools' folders (Maven's 3.9.6)
+const BARE_VERSION_PATTERN = /^(?:1\.(?=\d+\.))?(\d+)(?:\.\d+)+(?:-[a-z]+)?$/i;
+
+/**
+ * Extracts Java version from a folder name. Bare versions such as "21.0.3-tem"
+ * only count with `allowBareVersion`, for folders known to hold Java.
+ */
+function extractJavaVersion(folderName: string, allowBareVersion = false): number | null {
   const patterns = [
     /jdk-?(\d+)(?:u\d+)?(?:\.[\d.]+)?(?:\+\d+)?/i, // jdk-8u452, jdk-21.0.3+9
+    /jre-?(\d+)/i, // jre-17, jre17
     /^(\d+)_/, // 8_x86_64_windows
     /java-(\d+)-/i, // java-11-openjdk
     /openjdk-?(\d+)/i, // openjdk-17, openjdk17
+    /corretto-(\d+)/i, // amazon-corretto-17.0.11.9.1-linux-x64
+    /^(?:temurin|adoptopenjdk|zulu|liberica|microsoft|sapmachine|semeru|oracle|dragonwell)-(?:openj9-)?(\d+)/i, // asdf, mise: temurin-21.0.3+9.0.LTS
+    /^[a-z][\w.-]*@(?:1\.(?=\d+\.))?(\d+)/i, // jabba: zulu@1.17.0, openjdk@21.0.2
     /^(\d+)$/, // just a number: 8, 11, 17
+    ...(allowBareVersion ? [BARE_VERSION_PATTERN] : []),
   ];
 
   for (const pattern of patterns) {
@@ -40,6 +131,151 @@ function extractJavaVersion(folderName: string): number | null {
   return null;
 }
 
+/**
+ * Extracts the full Java version from a folder name, falling back to the
+ * bare feature version when the name carries no update or build.
+ */
+function extractFullJavaVersion(folderName: string, featureVersion: number): JavaVersion {
+  const patterns = [
+    /(?:jdk|jre)-?(1\.\d+\.\d+(?:_\d+)?(?:-b\d+)?)/i, // jdk1.8.0_392
+    /(?:jdk|jre)-?(\d+u\d+(?:-b\d+)?)/i, // jdk8u452-b09
+    /(?:jdk|jre)-?(\d+(?:\.\d+)*(?:-(?:ea|beta|rc\d*))?(?:\+\d+)?)/i, // jdk-21.0.3+9, zulu...-jdk17.0.10-linux_x64
+    /corretto-(\d+(?:\.\d+)+)/i, // amazon-corretto-17.0.11.9.1-linux-x64
+    /^(?:[a-z]+-)?(\d+(?:\.\d+)+(?:\+\d+)?)/i, // 21.0.3-tem, temurin-21.0.3+9.0.LTS
+  ];
+
+  for (const pattern of patterns) {
+    const match = folderName.match(pattern);
+    const version = match && parseJavaVersion(match[1]!);
+    if (version && version.feature === featureVersion) return version;
+  }
+  return parseJavaVersion(String(featureVersion))!;
+}
+
+/**
+ * Reads the `release` file of a Java home.
+ * @returns The key/value pairs, or null if the file is missing.
+ */
+export async function readJavaReleaseFile(
+  javaHome: string,
+): Promise<JavaReleaseFile | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(javaHome, "release"), "utf8");
+  } catch {
+    return null;
+  }
+
+  const release: JavaReleaseFile = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+    release[match[1]!] = match[2]!.replace(/^"(.*)"$/, "$1");
+  }
+  return release;
+}
+
+/**
+ * Maps the release file's `OS_ARCH` and `OS_NAME` onto the names used by
+ * `InstalledJavaVersion`. Unknown values are dropped.
+ */
+function releaseArchAndOS(release: JavaReleaseFile): { arch?: string; os?: string } {
+  const arch = release.OS_ARCH?.toLowerCase();
+  const os = release.OS_NAME && normalizeOSName(release.OS_NAME);
+  return {
+    arch:
+      arch === "x86_64" || arch === "amd64" ? "x86_64"
+      : arch === "aarch64" || arch === "arm64" ? "aarch64"
+      : arch === "x86" || arch === "i386" || arch === "i586" || arch === "i686" ? "x86"
+      : arch?.startsWith("arm") ? "arm"
+      : undefined,
+    os: os === "windows" || os === "linux" || os === "macos" ? os : undefined,
+  };
+}
+
+/** Full version from the release file, preferring `JAVA_RUNTIME_VERSION` for its build number. */
+function releaseJavaVersion(release: JavaReleaseFile | null): JavaVersion | null {
+  if (!release) return null;
+  const runtime = release.JAVA_RUNTIME_VERSION && parseJavaVersion(release.JAVA_RUNTIME_VERSION);
+  const version = release.JAVA_VERSION && parseJavaVersion(release.JAVA_VERSION);
+  // Some vendors put their own build scheme in JAVA_RUNTIME_VERSION
+  if (runtime && (!version || runtime.feature === version.feature)) return runtime;
+  return version || null;
+}
+
+/**
+ * Builds the installation details. Arch and OS come from the java executable's
+ * header, then the release file, then the folder name; the rest prefers the
+ * release file's metadata over folder-name heuristics and the bin directory contents.
+ */
+async function describeInstallation(
+  folderName: string,
+  featureVersion: number,
+  release: JavaReleaseFile | null,
+  binPath: string,
+): Promise<Pick<
+  InstalledJavaVersion,
+  "featureVersion" | "version" | "arch" | "os" | "bits" | "architectures" | "imageType" | "isGraalVM" | "hasNativeImage" | "implementor" | "vendor" | "modules"
+>> {
+  const version =
+    releaseJavaVersion(release) ?? extractFullJavaVersion(folderName, featureVersion);
+  const guessed = extractArchAndOS(folderName);
+  const fromRelease = release ? releaseArchAndOS(release) : {};
+  const binary = await readBinaryInfo(getJavaExecutablePath(binPath));
+  const modules = release?.MODULES?.split(/\s+/).filter(Boolean);
+  const graal = await detectGraalVM(folderName, binPath, release);
+  const vendor = graal.isGraalVM
+    ? "graalvm"
+    : /openj9/i.test(release?.JVM_VARIANT ?? "")
+      ? "openj9"
+      : normalizeJavaVendor(`${release?.IMPLEMENTOR ?? ""} ${release?.IMPLEMENTOR_VERSION ?? ""}`) ??
+        normalizeJavaVendor(folderName);
+
+  return {
+    featureVersion: version.feature,
+    version,
+    arch: binary?.arch ?? fromRelease.arch ?? guessed.arch,
+    os: binary?.os ?? fromRelease.os ?? guessed.os,
+    ...(binary && { bits: binary.bits }),
+    ...(binary?.architectures && { architectures: binary.architectures }),
+    imageType: modules?.length
+      ? modules.includes("jdk.compiler") ? "jdk" : "jre"
+      : await detectImageType(binPath),
+    ...graal,
+    ...(release?.IMPLEMENTOR && { implementor: release.IMPLEMENTOR }),
+    ...(vendor && { vendor }),
+    ...(modules?.length && { modules }),
+  };
+}
+
+/**
+ * Overrides the detected details with the properties the binary reports.
+ * The vendor is only filled in when the home did not name one: a release
+ * file's GraalVM or OpenJ9 markers say more than `java.vendor` ("Oracle Corporation").
+ */
+function applyRuntimeProperties(
+  java: InstalledJavaVersion,
+  runtime: JavaRuntimeProperties,
+): InstalledJavaVersion {
+  const version = parseJavaVersion(runtime.javaVersion);
+  const { arch, os } = releaseArchAndOS({
+    OS_ARCH: runtime.osArch,
+    OS_NAME: runtime.osName,
+  });
+  const vendor = normalizeJavaVendor(
+    `${runtime.vendor} ${runtime.properties["java.vm.name"] ?? ""}`,
+  );
+  return {
+    ...java,
+    ...(version && { featureVersion: version.feature, version }),
+    arch: arch ?? java.arch,
+    os: os ?? java.os,
+    implementor: java.implementor ?? (runtime.vendor || undefined),
+    ...(!java.vendor && vendor && { vendor }),
+    runtime,
+  };
+}
+
 /**
  * Extracts architecture and OS from a folder name.
  */
@@ -59,7 +295,7 @@ function extractArchAndOS(folderName: string): { arch: string; os: string } {
   }
 
   // Detect OS
-  let os = env.platform.name; // default current
+  let os = normalizeOSName(env.platform.name); // default current
   if (lowerName.includes("windows") || lowerName.includes("win")) {
     os = "windows";
   } else if (lowerName.includes("linux")) {
@@ -73,6 +309,50 @@ function extractArchAndOS(folderName: string): { arch: string; os: string } {
   return { arch, os };
 }
 
+/**
+ * Detects GraalVM homes from the folder name, the `release` file next to
+ * `bin` and the presence of the `native-image` tool.
+ */
+async function detectGraalVM(
+  folderName: string,
+  binPath: string,
+  release: JavaReleaseFile | null,
+): Promise<{ isGraalVM: boolean; hasNativeImage: boolean }> {
+  const nativeImageNames = env.isWindows()
+    ? ["native-image.cmd", "native-image.exe"]
+    : ["native-image"];
+
+  let hasNativeImage = false;
+  for (const name of nativeImageNames) {
+    try {
+      await fs.access(path.join(binPath, name));
+      hasNativeImage = true;
+      break;
+    } catch {}
+  }
+
+  const isGraalVM =
+    hasNativeImage ||
+    /graalvm/i.test(folderName) ||
+    release?.GRAALVM_VERSION !== undefined ||
+    /^GraalVM/.test(release?.IMPLEMENTOR ?? "");
+
+  return { isGraalVM, hasNativeImage };
+}
+
+/**
+ * Tells a JDK from a JRE by looking for `javac` in the bin directory.
+ */
+async function detectImageType(binPath: string): Promise<"jdk" | "jre"> {
+  const javac = env.isWindows() ? "javac.exe" : "javac";
+  try {
+    await fs.access(path.join(binPath, javac));
+    return "jdk";
+  } catch {
+    return "jre";
+  }
+}
+
 /**
  * Builds the path to the Java executable based on the platform.
  */
@@ -93,6 +373,7 @@ function getJavaExecutablePath(binPath: string): string {
  */
 export async function scanJavaInstallations(
   basePath: string,
+  options: ScanJavaOptions = {},
 ): Promise<InstalledJavaVersion[]> {
   try {
     // Ensure base path exists
@@ -104,12 +385,54 @@ export async function scanJavaInstallations(
 
     const javaExecutableName = env.isWindows() ? "java.exe" : "java";
     const homes = new Map<string, InstalledJavaVersion>();
+    const { followSymlinks = false } = options;
+    // Link path -> real path, for the aliases of each home
+    const links = new Map<string, string>();
+
+    /**
+     * Resolves a symlink entry when following links.
+     * @returns The real path and its type, or null to skip the entry.
+     */
+    async function resolveLink(
+      fullPath: string,
+    ): Promise<{ realPath: string; isDirectory: boolean; isFile: boolean } | null> {
+      if (!followSymlinks) return null; // Ignore symlinks etc.
+      try {
+        const realPath = await fs.realpath(fullPath);
+        const stats = await fs.stat(realPath);
+        links.set(fullPath, realPath);
+        return { realPath, isDirectory: stats.isDirectory(), isFile: stats.isFile() };
+      } catch {
+        return null; // dangling link
+      }
+    }
+
+    /**
+     * Marks a directory as visited by device and inode.
+     * @returns False if it was seen already (a link cycle or a second link to it).
+     */
+    async function visit(visited: Set<string>, dir: string): Promise<boolean> {
+      if (!followSymlinks) return true;
+      try {
+        const { dev, ino } = await fs.stat(dir);
+        const key = `${dev}:${ino}`;
+        if (visited.has(key)) return false;
+        visited.add(key);
+        return true;
+      } catch {
+        return false;
+      }
+    }
 
     /**
      * Recursively find all java executables under a directory.
      */
-    async function findExecutables(dir: string): Promise<string[]> {
+    async function findExecutables(
+      dir: string,
+      visited = new Set<string>(),
+    ): Promise<string[]> {
       const results: string[] = [];
+      if (!(await visit(visited, dir))) return results;
       try {
         const entries = await fs.readdir(dir, { withFileTypes: true });
         for (const entry of entries) {
@@ -117,11 +440,17 @@ export async function scanJavaInstallations(
           if (entry.isDirectory()) {
             // Skip hidden directories
             if (entry.name.startsWith('.')) continue;
-            results.push(...await findExecutables(fullPath));
+            results.push(...await findExecutables(fullPath, visited));
           } else if (entry.isFile() && entry.name === javaExecutableName) {
             results.push(fullPath);
+          } else if (entry.isSymbolicLink()) {
+            const link = await resolveLink(fullPath);
+            if (link?.isDirectory && !entry.name.startsWith('.')) {
+              results.push(...await findExecutables(link.realPath, visited));
+            } else if (link?.isFile && entry.name === javaExecutableName) {
+              results.push(link.realPath);
+            }
           }
-          // Ignore symlinks etc.
         }
       } catch (err) {
         console.error(`Error reading directory ${dir}:`, err);
@@ -132,18 +461,28 @@ export async function scanJavaInstallations(
     /**
      * Recursively find all directories under a directory.
      */
-    async function findDirectories(dir: string): Promise<string[]> {
+    async function findDirectories(
+      dir: string,
+      visited = new Set<string>(),
+    ): Promise<string[] | null> {
       const dirs: string[] = [];
+      if (!(await visit(visited, dir))) return null; // seen already
       try {
         const entries = await fs.readdir(dir, { withFileTypes: true });
         for (const entry of entries) {
-          if (entry.isDirectory()) {
-            // Skip hidden directories
-            if (entry.name.startsWith('.')) continue;
-            const fullPath = path.join(dir, entry.name);
-            dirs.push(fullPath);
-            dirs.push(...await findDirectories(fullPath));
+          // Skip hidden directories
+          if (entry.name.startsWith('.')) continue;
+          let fullPath = path.join(dir, entry.name);
+          if (entry.isSymbolicLink()) {
+            const link = await resolveLink(fullPath);
+            if (!link?.isDirectory) continue;
+            fullPath = link.realPath;
+          } else if (!entry.isDirectory()) {
+            continue;
           }
+          const nested = await findDirectories(fullPath, visited);
+          if (nested === null) continue;
+          dirs.push(fullPath, ...nested);
         }
       } catch (err) {
         console.error(`Error reading directory ${dir}:`, err);
@@ -151,14 +490,32 @@ export async function scanJavaInstallations(
       return dirs;
     }
 
+    // Report real paths when following links, even if the base is a link itself
+    const root = followSymlinks ? await fs.realpath(basePath) : basePath;
+    if (root !== basePath) links.set(basePath, root);
+
     // First pass: find all java executables and create valid installations
-    const executables = await findExecutables(basePath);
+    const executables = await findExecutables(root);
     for (const execPath of executables) {
       // Derive bin and install paths
       const binPath = path.dirname(execPath);
       let installPath = path.dirname(binPath);
+      const release = await readJavaReleaseFile(installPath);
       let folderName = path.basename(installPath);
-      let featureVersion = extractJavaVersion(folderName);
+      let featureVersion = extractJavaVersion(folderName, true);
+
+      // The release file names the version of homes like "current" or "temurin";
+      // macOS bundles are still reported from the bundle folder
+      if (featureVersion === null && releaseJavaVersion(release)) {
+        featureVersion = releaseJavaVersion(release)!.feature;
+        if (
+          folderName === "Home" &&
+          path.basename(path.dirname(installPath)) === "Contents"
+        ) {
+          installPath = path.dirname(path.dirname(installPath));
+          folderName = path.basename(installPath);
+        }
+      }
 
       // If version not found in immediate parent, try going up a few levels
       // (useful for macOS where bin is under Contents/Home)
@@ -166,7 +523,7 @@ export async function scanJavaInstallations(
         let candidate = installPath;
         for (let i = 0; i < 3; i++) {
           candidate = path.dirname(candidate);
-          const version = extractJavaVersion(path.basename(candidate));
+          const version = extractJavaVersion(path.basename(candidate), true);
           if (version !== null) {
             featureVersion = version;
             folderName = path.basename(candidate);
@@ -176,6 +533,13 @@ export async function scanJavaInstallations(
         }
       }
 
+      // Deep scans can still ask the binary itself
+      if (featureVersion === null && options.deep) {
+        const runtime = await probeJavaProperties(execPath);
+        const version = runtime && parseJavaVersion(runtime.javaVersion);
+        if (version) featureVersion = version.feature;
+      }
+
       if (featureVersion === null) {
         // Could not determine version, skip this installation
         continue;
@@ -184,30 +548,39 @@ export async function scanJavaInstallations(
       // Avoid duplicates (same installPath)
       if (homes.has(installPath)) continue;
 
-      const { arch, os } = extractArchAndOS(folderName);
-
       homes.set(installPath, {
-        featureVersion,
         folderName,
         installPath,
         binPath,
         javaExecutable: execPath,
-        arch,
-        os,
         isValid: true, // since we found the executable
+        ...(await describeInstallation(folderName, featureVersion, release, binPath)),
       });
     }
 
     // Second pass: find directories that look like Java installations but have no executable
-    const allDirs = await findDirectories(basePath);
+    const allDirs = (await findDirectories(root)) ?? [];
     for (const dir of allDirs) {
+      // Already have this installation (from executable pass)
+      if (homes.has(dir)) continue;
+
       const folderName = path.basename(dir);
-      const featureVersion = extractJavaVersion(folderName);
+      let featureVersion = extractJavaVersion(folderName);
+      let release: JavaReleaseFile | null = null;
       if (featureVersion === null) {
-        continue;
+        // Folders without a version in their name, or with a bare one like "3.9.6",
+        // only count with a release file, and not when they belong to a home found
+        // already (e.g. Contents/Home)
+        const insideHome = [...homes.keys()].some((home) =>
+          dir.startsWith(home + path.sep),
+        );
+        if (insideHome) continue;
+        release = await readJavaReleaseFile(dir);
+        if (!release) continue;
+        featureVersion =
+          releaseJavaVersion(release)?.feature ?? extractJavaVersion(folderName, true);
+        if (featureVersion === null) continue;
       }
-      // Already have this installation (from executable pass)
-      if (homes.has(dir)) continue;
 
       // Determine possible bin paths
       const standardBin = path.join(dir, "bin");
@@ -233,25 +606,47 @@ export async function scanJavaInstallations(
         isValid = true;
       } catch {}
 
+      release ??= await readJavaReleaseFile(path.dirname(binPath));
+
       // Only add if we haven't already added this installPath (should not happen)
       if (!homes.has(dir)) {
-        const { arch, os } = extractArchAndOS(folderName);
         homes.set(dir, {
-          featureVersion,
           folderName,
           installPath: dir,
           binPath,
           javaExecutable,
-          arch,
-          os,
           isValid,
+          ...(await describeInstallation(folderName, featureVersion, release, binPath)),
         });
       }
     }
 
+    if (options.deep) {
+      for (const [home, java] of homes) {
+        if (!java.isValid) continue;
+        const runtime = await probeJavaProperties(java.javaExecutable);
+        homes.set(
+          home,
+          runtime ? applyRuntimeProperties(java, runtime) : { ...java, isValid: false },
+        );
+      }
+    }
+
+    if (followSymlinks) {
+      for (const java of homes.values()) {
+        const aliases = [...links]
+          .filter(([, realPath]) =>
+            realPath === java.installPath ||
+            realPath.startsWith(java.installPath + path.sep),
+          )
+          .map(([link]) => link);
+        if (aliases.length) java.aliases = aliases;
+      }
+    }
+
     // Sort by version descending
     return Array.from(homes.values())
-      .sort((a, b) => b.featureVersion - a.featureVersion);
+      .sort((a, b) => compareJavaVersions(b.version, a.version));
   } catch (error) {
     console.error(`Error scanning Java installations in ${basePath}:`, error);
     return [];
@@ -259,35 +654,71 @@ export async function scanJavaInstallations(
 }
 
 /**
- * Finds a specific Java version.
+ * Finds the best installed Java for a feature version (`17`) or a requirement
+ * (`">=17 <22"`, `"^21"`, `"latest lts"`). Among matches, preferred vendors
+ * come first, then LTS versions unless `preferLts` is false, then the newest patch.
  */
 export async function findJavaVersion(
   basePath: string,
-  targetVersion: number,
+  targetVersion: number | string | JavaRequirement,
   options: {
     requireSameArch?: boolean;
     requireSameOS?: boolean;
     requireValid?: boolean;
+    /** Only match this image type; any when omitted. */
+    imageType?: "jdk" | "jre";
+    /** Only match this JVM (OpenJ9 homes have the "openj9" vendor); any when omitted. */
+    jvmImpl?: "hotspot" | "openj9";
+    /** Prefer LTS versions when a requirement matches several (default true, false for `latest`). */
+    preferLts?: boolean;
+    /** Only match these vendors (see normalizeJavaVendor), preferring earlier ones. */
+    vendors?: string[];
+    /** Prefer these vendors, earlier first, without excluding others. */
+    preferVendors?: string[];
   } = {},
 ): Promise<InstalledJavaVersion | null> {
   const {
     requireSameArch = true,
     requireSameOS = true,
     requireValid = true,
+    imageType,
+    jvmImpl,
+    vendors,
+    preferVendors = vendors ?? [],
   } = options;
 
   try {
+    const requirement =
+      typeof targetVersion === "object"
+        ? targetVersion
+        : parseJavaRequirement(targetVersion);
+    const { preferLts = !requirement.latest } = options;
     const allVersions = await scanJavaInstallations(basePath);
-    for (const java of allVersions) {
-      if (java.featureVersion !== targetVersion) continue;
-      if (requireValid && !java.isValid) continue;
-      if (requireSameArch && java.arch !== env.arch) continue;
-      if (requireSameOS && java.os !== env.platform.name) continue;
-      return java;
-    }
-    return null;
+    const matches = allVersions.filter((java) => {
+      if (!satisfiesJavaRequirement(java.version, requirement)) return false;
+      if (requireValid && !java.isValid) return false;
+      // Universal binaries run on any of their slices
+      if (requireSameArch && java.arch !== env.arch && !java.architectures?.includes(env.arch)) {
+        return false;
+      }
+      if (requireSameOS && java.os !== normalizeOSName(env.platform.name)) return false;
+      if (imageType && java.imageType !== imageType) return false;
+      if (jvmImpl && (java.vendor === "openj9" ? "openj9" : "hotspot") !== jvmImpl) return false;
+      if (vendors && !vendors.includes(java.vendor ?? "")) return false;
+      return true;
+    });
+    // Vendor preference comes first; the stable sort keeps the version order within a vendor
+    const rank = (java: InstalledJavaVersion) => {
+      const index = preferVendors.indexOf(java.vendor ?? "");
+      return index === -1 ? preferVendors.length : index;
+    };
+    const [best] = sortByJavaPreference(matches, (java) => java.version, {
+      preferLts,
+    }).sort((a, b) => rank(a) - rank(b));
+    return best ?? null;
   } catch (error) {
-    console.error(`Error finding Java version ${targetVersion} in ${basePath}:`, error);
+    const label = typeof targetVersion === "object" ? targetVersion.raw : targetVersion;
+    console.error(`Error finding Java version ${label} in ${basePath}:`, error);
     return null;
   }
 }
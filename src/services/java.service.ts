@@ -1,46 +1,167 @@
 // src/services/java-info.service.ts
 import path from "node:path";
+import { randomUUID } from "node:crypto";
 import { env } from "../platforms/env.js";
-import { CommandUtils } from "../utils/commands.js";
+import { CommandUtils, probeJavaProperties } from "../utils/commands.js";
+import { normalizeOSName } from "../utils/binary.js";
 import { defaultPaths } from "../config.js";
 import { taskManager } from "../services/taskInstance.js";
 import { FileUtils, asyncHandler } from "../utils/file.js";
-import { findJavaVersion, scanJavaInstallations, type InstalledJavaVersion } from "./installations.js";
+import {
+  findJavaVersion,
+  normalizeJavaVendor,
+  scanJavaInstallations,
+  type InstalledJavaVersion,
+} from "./installations.js";
+import {
+  compareJavaVersions,
+  parseJavaVersion,
+  type JavaVersion,
+} from "../utils/version.js";
+import { setCurrentJava } from "./current.js";
+import {
+  cleanStaleStagingDirs,
+  commitStagedJava,
+  createStagingDir,
+  discardStagingDir,
+} from "./staging.js";
+import {
+  pruneJavaInstallations,
+  uninstallJava,
+  type JavaRemovalResult,
+  type PruneJavaOptions,
+  type UninstallJavaOptions,
+} from "./uninstall.js";
+import {
+  featureMatchesJavaRequirement,
+  parseJavaRequirement,
+  satisfiesJavaRequirement,
+  sortByJavaPreference,
+  type JavaRequirement,
+  type JavaResolvePolicy,
+} from "../utils/requirement.js";
 import type {
   DownloadResult,
+  TaskEvents,
   TaskOperation,
 } from "../services/taskInstance.js";
+import {
+  downloadFile,
+  type DownloadFileResult,
+  type DownloadProgress,
+} from "../utils/download.js";
+import { withRetry, type RetryAttempt, type RetryPolicy } from "../utils/retry.js";
+import { adoptiumProvider } from "./providers/adoptium.js";
+import {
+  isPinnedQuery,
+  type JavaDistributionProvider,
+  type JavaImageType,
+  type JavaJvmImpl,
+  type JavaRelease,
+  type JavaReleasePage,
+  type JavaReleaseQuery,
+  type JavaReleaseType,
+} from "./providers/provider.js";
 // ------------------------------------------------------------------
 // 1.  Types returned to the caller
 // ------------------------------------------------------------------
-export interface JavaRelease {
-  featureVersion: number; // e.g. 21
-  releaseName: string; // e.g. "jdk-21.0.3+9"
-  downloadUrl: string; // direct link to the archive
-  checksumUrl: string; // sha256 string
-  size: number; // size in bytes
-  arch: string; // e.g. "x64", "aarch64"
-  os: string; // e.g. "windows", "linux", "mac"
-  [key: string]: string | number;
-}
+export type { JavaRelease, JavaImageType, JavaJvmImpl, JavaReleaseType };
 
 export interface JavaVersionsInfo {
   available: number[]; // e.g. [8, 11, 17, 21, 22]
   lts: number[]; // e.g. [8, 11, 17, 21]
+  earlyAccess: number[]; // versions with early-access builds only, e.g. [23, 24]
+  mostRecentFeatureRelease?: number; // newest GA feature version, e.g. 22
   releases: JavaRelease[]; // concrete binaries for current platform/arch
   installedInfo: InstalledJavaVersion[]; // installed Java versions found locally
   installed: number[];
 }
 
+export interface JavaProviderOptions {
+  /** Distribution provider to use instead of the active one. */
+  provider?: JavaDistributionProvider;
+  /** Image to install, defaults to "jdk". */
+  imageType?: JavaImageType;
+  /** JVM implementation, defaults to "hotspot". */
+  jvmImpl?: JavaJvmImpl;
+  /** Release channel, defaults to "ga"; "ea" selects early-access builds. */
+  releaseType?: JavaReleaseType;
+}
+
+/** Selects an exact release instead of the latest GA build of a feature version. */
+export interface JavaReleasePin {
+  /** Vendor release name, e.g. "jdk-21.0.3+9". */
+  releaseName?: string;
+  /** Update version, e.g. "17.0.11". */
+  javaVersion?: string;
+}
+
+export interface JavaInstallableVersionsOptions extends JavaProviderOptions {
+  /** Retries for the provider requests; failing requests are not retried when omitted. */
+  retry?: RetryPolicy;
+}
+
+export interface JavaDownloadOptions {
+  /** Retries for each URL; the release's `mirrorUrls` are tried in turn once one gives up. */
+  retry?: RetryPolicy;
+}
+
+export interface JavaReleaseHistoryOptions
+  extends JavaProviderOptions,
+    JavaReleasePage {}
+
 import {
-  ADOPTIUM_API_BASE_URL,
   ADOPTIUM_ARCH_MAP,
   TERMUX_CONSTANTS,
   FOLDER_NAMES,
+  EXTENSIONS,
 } from "../constants.js";
 
+// Provider used when a call does not pass its own
+let activeProvider: JavaDistributionProvider = adoptiumProvider;
+
+/**
+ * Builds the release query for the current platform.
+ * @throws Error if the architecture has no Adoptium equivalent.
+ */
+function _getReleaseQuery(
+  options: JavaProviderOptions & JavaReleasePin = {},
+): JavaReleaseQuery {
+  const arch = ADOPTIUM_ARCH_MAP[process.arch];
+  if (!arch) {
+    throw new Error(
+      `Arch Unsupported: ADOPTIUM_ARCH_MAP[${process.arch}] ${arch}`,
+    );
+  }
+  return {
+    os: env.platform.name,
+    arch,
+    imageType: options.imageType ?? "jdk",
+    jvmImpl: options.jvmImpl ?? "hotspot",
+    releaseType: options.releaseType ?? "ga",
+    ...(options.releaseName && { releaseName: options.releaseName }),
+    ...(options.javaVersion && { javaVersion: options.javaVersion }),
+  };
+}
+
+/**
+ * Suffix telling non-default images apart in file names,
+ * e.g. "" for a HotSpot JDK, "-jre", "-jre-openj9" or "-ea".
+ */
+function getVariantSuffix(query: JavaReleaseQuery): string {
+  const imageType = query.imageType ?? "jdk";
+  const jvmImpl = query.jvmImpl ?? "hotspot";
+  const releaseType = query.releaseType ?? "ga";
+  return (
+    (imageType !== "jdk" ? `-${imageType}` : "") +
+    (jvmImpl !== "hotspot" ? `-${jvmImpl}` : "") +
+    (releaseType !== "ga" ? `-${releaseType}` : "")
+  );
+}
+
 const _getJavaInfoByVersion = async (
   javaVersion: string | number,
+  options: JavaProviderOptions & JavaReleasePin = {},
 ) => {
   const versionStr = String(javaVersion ?? "");
   if (!versionStr) {
@@ -67,18 +188,33 @@ const _getJavaInfoByVersion = async (
   }
 
   // --- Standard ---
-  const arch = ADOPTIUM_ARCH_MAP[process.arch];
-  if (!arch) {
-    throw new Error(
-      `Arch Unsupported: ADOPTIUM_ARCH_MAP[${process.arch}] ${arch}`,
-    );
-  }
+  const provider = options.provider ?? activeProvider;
+  const query = _getReleaseQuery(options);
+  const { arch, imageType, jvmImpl, releaseType } = query;
 
-  const resultURL = `${ADOPTIUM_API_BASE_URL}/binary/latest/${versionStr}/ga/${env.platform.name}/${arch}/jdk/hotspot/normal/eclipse?project=jdk`;
-  const filename = `Java-${versionStr}-${arch}${env.platform.ext}`;
+  // Direct binary links always point at the latest build
+  let resultURL = isPinnedQuery(query)
+    ? undefined
+    : provider.getBinaryUrl?.(Number(versionStr), query);
+  if (!resultURL) {
+    const release = await provider.resolveRelease(Number(versionStr), query);
+    if (!release) {
+      throw new Error(
+        `No Java ${versionStr} release available from ${provider.name} for ${query.os}/${arch}`,
+      );
+    }
+    resultURL = release.downloadUrl;
+  }
+  const label = query.releaseName ?? query.javaVersion ?? versionStr;
+  const filename = `Java-${label}${getVariantSuffix(query)}-${arch}${env.platform.ext}`;
+  // e.g. "jdk-17", "jre-17", "jdk-17.0.11", "jdk-17-openj9", "jdk-24-ea" so images can sit side by side
+  const unpackFolder =
+    `${imageType}-${label}` +
+    (jvmImpl !== "hotspot" ? `-${jvmImpl}` : "") +
+    (releaseType !== "ga" ? `-${releaseType}` : "");
 
   const relativeDownloadPath = path.join(defaultPaths.downloadPath, filename);
-  const relativeUnpackPath = path.join(defaultPaths.unpackPath, `jdk-${versionStr}`);
+  const relativeUnpackPath = path.join(defaultPaths.unpackPath, unpackFolder);
   const absoluteDownloadPath = path.resolve(relativeDownloadPath);
   const absoluteUnpackPath = path.resolve(relativeUnpackPath);
 
@@ -90,6 +226,9 @@ const _getJavaInfoByVersion = async (
     url: resultURL,
     filename,
     version: versionStr,
+    imageType,
+    jvmImpl,
+    releaseType,
     downloadPath: relativeDownloadPath,
     unpackPath: relativeUnpackPath,
     absoluteDownloadPath,
@@ -97,57 +236,96 @@ const _getJavaInfoByVersion = async (
     javaBinPath,
   };
 };
-async function _getJavaInstallableVersions(): Promise<JavaVersionsInfo> {
-  const os = env.platform.name;
-  const arch = ADOPTIUM_ARCH_MAP[process.arch];
+/**
+ * Creates a task reported through `taskManager` events, for work the task
+ * manager does not run itself. `emit` merges changes into the task first.
+ */
+function _createTask(type: string, payload: object) {
+  const now = new Date();
+  const task = {
+    id: `${type}-${randomUUID()}`,
+    type,
+    status: "pending",
+    progress: 0,
+    payload,
+    details: {} as Record<string, unknown>,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const emit = (eventName: keyof TaskEvents, changes: object = {}) => {
+    Object.assign(task, changes, { updatedAt: new Date() });
+    taskManager.emit(eventName, task);
+  };
+  emit("task:created");
+  return { task, emit };
+}
 
-  if (!arch) {
-    throw new Error(
-        `Arch Unsupported: ADOPTIUM_ARCH_MAP[${process.arch}] ${arch}`,
-    );
+/** Task details describing a retry attempt. */
+function _attemptDetails({ attempt, maxAttempts, lastError, delay }: RetryAttempt) {
+  return {
+    attempt,
+    maxAttempts,
+    ...(delay !== undefined && { delay }),
+    ...(lastError !== undefined && {
+      lastError: lastError instanceof Error ? lastError.message : String(lastError),
+    }),
+  };
+}
+
+async function _getJavaInstallableVersions(
+  options: JavaInstallableVersionsOptions = {},
+): Promise<JavaVersionsInfo> {
+  const provider = options.provider ?? activeProvider;
+  const query = _getReleaseQuery(options);
+  // Without a policy each request runs once, as before
+  const retry = options.retry ?? { maxAttempts: 1 };
+
+  // Each request attempt is reported, so retries stay visible when the lookup fails
+  const { emit } = _createTask("versions", { provider: provider.name, query });
+  const request = <T>(step: string, operation: () => Promise<T>) =>
+    withRetry(operation, retry, (attempt) => {
+      emit("task:progress", { details: { step, ..._attemptDetails(attempt) } });
+    });
+
+  emit("task:started", { status: "running" });
+  try {
+    const result = await _listInstallableVersions(provider, query, request);
+    emit("task:completed", { status: "completed", progress: 100, result });
+    return result;
+  } catch (error) {
+    emit("task:failed", {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
   }
+}
 
+async function _listInstallableVersions(
+  provider: JavaDistributionProvider,
+  query: JavaReleaseQuery,
+  request: <T>(step: string, operation: () => Promise<T>) => Promise<T>,
+): Promise<JavaVersionsInfo> {
   // 3.1 – which feature releases exist?
-  const availRes = await fetch(
-    `${ADOPTIUM_API_BASE_URL}/info/available_releases`,
-  );
-  if (!availRes.ok) throw new Error(`Adoptium API error: ${availRes.status}`);
-  const { available_releases, most_recent_lts } = (await availRes.json()) as {
-    available_releases: number[];
-    most_recent_lts: number;
-  };
+  const {
+    available: available_releases,
+    lts,
+    earlyAccess = [],
+    mostRecentFeatureRelease,
+  } = await request("listFeatureVersions", () => provider.listFeatureVersions(query));
 
-  // 3.2 – for every available release, list latest GA binary
+  // 3.2 – for every available release, resolve the latest binary
+  // (EA builds also exist for versions that have no GA yet)
+  const features =
+    query.releaseType === "ea"
+      ? [...available_releases, ...earlyAccess]
+      : available_releases;
   const releases: JavaRelease[] = [];
-  for (const feature of available_releases) {
-    // Only consider GA releases (not ea)
-    const url =
-      `${ADOPTIUM_API_BASE_URL}/assets/latest/${feature}/hotspot?` +
-      `os=${os}&architecture=${arch}&image_type=jdk&project=jdk`;
-    const res = await fetch(url);
-    if (!res.ok) continue; // version might not exist for this platform
-    const payload = (await res.json()) as Array<{
-      release_name: string;
-      binary: {
-        package: { name: string; link: string; checksum: string; size: number };
-      };
-    }>;
-
-    if (!payload.length) continue;
-    if (!payload[0]) {
-      continue;
-    }
-    const { release_name, binary } = payload[0];
-    //console.log("binary", binary);
-    releases.push({
-      featureVersion: feature,
-      releaseName: release_name,
-      downloadUrl: binary.package.link,
-      checksumUrl: binary.package.checksum,
-      size: binary.package.size,
-      arch: arch,
-      os: os,
-    });
+  for (const feature of features) {
+    const release = await request(`resolveRelease ${feature}`, () =>
+      provider.resolveRelease(feature, query),
+    );
+    if (release) releases.push(release);
   }
   // Obtener versiones únicas para verificar instalaciones
   const uniqueVersions = [
@@ -159,7 +337,9 @@ async function _getJavaInstallableVersions(): Promise<JavaVersionsInfo> {
 
   // Usar Promise.all para manejar correctamente las promesas asíncronas
   const installedVersionsPromises = uniqueVersions.map(async (v) => {
-    const javaInfo = await findJavaVersion(defaultPaths.unpackPath, v);
+    const javaInfo = await findJavaVersion(defaultPaths.unpackPath, v, {
+      imageType: query.imageType === "jre" ? "jre" : "jdk",
+    });
     return javaInfo || false;
   });
 
@@ -168,12 +348,28 @@ async function _getJavaInstallableVersions(): Promise<JavaVersionsInfo> {
 
   return {
     available: available_releases,
-    lts: available_releases.filter((v) => v <= most_recent_lts),
+    lts,
+    earlyAccess,
+    mostRecentFeatureRelease,
     releases,
     installedInfo: installedVersions,
     installed: installedVersions.map((v) => v.featureVersion),
   };
 }
+async function _getReleaseHistory(
+  version: number,
+  options: JavaReleaseHistoryOptions = {},
+): Promise<JavaRelease[]> {
+  const provider = options.provider ?? activeProvider;
+  if (!provider.listReleaseHistory) {
+    throw new Error(`${provider.name} does not list release history`);
+  }
+  const { page, pageSize } = options;
+  return provider.listReleaseHistory(version, _getReleaseQuery(options), {
+    page,
+    pageSize,
+  });
+}
 async function filterReleases(
   releases: JavaRelease[],
   version: number,
@@ -185,73 +381,685 @@ async function filterReleases(
 
   return findVersion;
 }
+/**
+ * Downloads a release into `defaultPaths.downloadPath` with `downloadFile`, so
+ * an interrupted download resumes where it stopped. Each URL (`downloadUrl`,
+ * then `mirrorUrls`) is retried by the policy before the next is tried. Every
+ * attempt and the progress are reported through `taskManager` events.
+ */
+function _startReleaseDownload(
+  release: JavaRelease,
+  fileName: string,
+  options: JavaDownloadOptions & { onComplete?: (data: DownloadFileResult) => void } = {},
+): TaskOperation<DownloadFileResult> {
+  const urls = [release.downloadUrl, ...(release.mirrorUrls ?? [])];
+  const { task, emit } = _createTask("download", { url: release.downloadUrl, urls, fileName });
+
+  // Details keep the latest byte counts next to the current attempt
+  let attemptDetails: object = {};
+  let progressDetails: object = {};
+  const details = () => ({ ...task.details, ...attemptDetails, ...progressDetails });
+
+  const download = (url: string) =>
+    withRetry(
+      () =>
+        downloadFile(url, path.join(defaultPaths.downloadPath, fileName), {
+          expectedSize: release.size || undefined,
+          onProgress: (progress: DownloadProgress) => {
+            const percent = progress.total
+              ? Math.floor((progress.downloaded / progress.total) * 100)
+              : 0;
+            progressDetails = progress;
+            // One event per percent, not per chunk
+            if (percent !== task.progress) {
+              emit("task:progress", { progress: percent, details: details() });
+            }
+          },
+        }),
+      options.retry ?? { maxAttempts: 1 },
+      (attempt) => {
+        attemptDetails = { url, ..._attemptDetails(attempt) };
+        emit("task:progress", { details: details() });
+      },
+    );
+
+  const promise = (async () => {
+    emit("task:started", { status: "running" });
+    let lastError: unknown;
+    for (const url of urls) {
+      try {
+        const result = await download(url);
+        emit("task:completed", { status: "completed", progress: 100, result });
+        options.onComplete?.(result);
+        return result;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    emit("task:failed", {
+      status: "failed",
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+    });
+    throw lastError;
+  })();
+  return { taskId: task.id, promise };
+}
+/**
+ * Downloads a release with `taskManager.download` and verifies it. A `retry`
+ * policy maps to the manager's `retries` and `retryDelay`; mirrors and
+ * resuming need `downloadJavaReleaseResumable`.
+ */
 async function _downloadJavaRelease(
   release: JavaRelease,
   fileName?: string,
   onComplete?: (data: DownloadResult) => void,
+  options: JavaDownloadOptions = {},
 ): Promise<TaskOperation<DownloadResult>> {
   const response = await fetch(release.downloadUrl);
   if (!response.ok) {
     throw new Error(`Failed to download Java release: ${response.statusText}`);
   }
 
-  //const filePath = path.join(downloadPath, path.basename(release.downloadUrl));
+  const { retry } = options;
   const { taskId, promise } = await taskManager.download(release.downloadUrl, {
     fileName,
     onComplete,
+    ...(retry && {
+      retries: Math.max((retry.maxAttempts ?? 3) - 1, 0),
+      retryDelay: retry.initialDelay ?? 1000,
+    }),
   });
 
-  const wrappedPromise = promise.then(async (result) => {
+  const wrappedPromise = promise.then(async (result: DownloadResult) => {
     // Determine the file path
     const actualFileName = fileName || path.basename(release.downloadUrl);
-    const filePath = path.join(defaultPaths.downloadPath, actualFileName);
-
-    // Verify integrity
-    // Note: checksumUrl in JavaRelease currently holds the actual checksum string based on the parsing logic
-    const validation = await FileUtils.verifyFileIntegrity(
-      filePath,
-      release.size,
-      release.checksumUrl,
-    );
+    await _verifyDownloadedRelease(release, actualFileName);
+    return result;
+  });
 
-    if (!validation.success || !validation.data) {
-      console.error(
-        `Verification failed for ${actualFileName}. Deleting corrupt file.`,
-      );
-      // Clean up failed download
-      await FileUtils.deletePath(defaultPaths.downloadPath, actualFileName);
-      throw new Error(
-        "File verification failed: The downloaded file is incomplete or corrupted.",
-      );
-    }
+  return { taskId, promise: wrappedPromise };
+}
+/**
+ * Downloads and verifies a release with `downloadFile`, so a download that
+ * dropped is resumed from its `.part` file by the next attempt or call, and
+ * the release's `mirrorUrls` are tried once `downloadUrl` gives up.
+ * `taskManager.download` cannot resume, so the task is only reported through
+ * `taskManager` events; `taskManager.getTask(taskId)` does not know it.
+ */
+async function _downloadJavaReleaseResumable(
+  release: JavaRelease,
+  fileName?: string,
+  onComplete?: (data: DownloadFileResult) => void,
+  options: JavaDownloadOptions = {},
+): Promise<TaskOperation<DownloadFileResult>> {
+  const actualFileName = fileName || path.basename(release.downloadUrl);
+  const { taskId, promise } = _startReleaseDownload(release, actualFileName, {
+    ...options,
+    onComplete,
+  });
 
+  const wrappedPromise = promise.then(async (result) => {
+    await _verifyDownloadedRelease(release, actualFileName);
     return result;
   });
 
   return { taskId, promise: wrappedPromise };
 }
+/**
+ * Verifies a downloaded archive against the release size and checksum,
+ * deleting it from the download folder when it does not match.
+ */
+async function _verifyDownloadedRelease(
+  release: JavaRelease,
+  fileName: string,
+): Promise<void> {
+  const filePath = path.join(defaultPaths.downloadPath, fileName);
+
+  // Note: checksumUrl in JavaRelease currently holds the actual checksum string based on the parsing logic
+  const validation = await FileUtils.verifyFileIntegrity(
+    filePath,
+    release.size,
+    release.checksumUrl,
+  );
+
+  if (!validation.success || !validation.data) {
+    console.error(
+      `Verification failed for ${fileName}. Deleting corrupt file.`,
+    );
+    // Clean up failed download
+    await FileUtils.deletePath(defaultPaths.downloadPath, fileName);
+    throw new Error(
+      "File verification failed: The downloaded file is incomplete or corrupted.",
+    );
+  }
+}
+// Unpack folders already cleared of stale staging dirs by this process
+const cleanedUnpackPaths = new Set<string>();
+
+/**
+ * Unpacks an archive into a hidden staging directory inside `unpackPath`,
+ * checks every extracted folder has `bin/java` and a `release` file, then
+ * renames them into place. A failed extract or validation leaves `unpackPath`
+ * untouched. Staging dirs left by crashed processes are removed on the first
+ * call for each `unpackPath`.
+ */
 async function _decompressJavaRelease(
   filePath: string,
-  unpackPath?: string,
+  unpackPath: string = defaultPaths.unpackPath,
 ) {
-  const { promise } = taskManager.unpack(filePath, {
-    destination: unpackPath,
-  });
-  const result = await promise;
-  return result;
+  const target = path.resolve(unpackPath);
+  if (!cleanedUnpackPaths.has(target)) {
+    await cleanStaleStagingDirs(target);
+    cleanedUnpackPaths.add(target);
+  }
+
+  const stagingDir = await createStagingDir(target);
+  try {
+    const { promise } = taskManager.unpack(filePath, {
+      destination: stagingDir,
+    });
+    const result = await promise;
+    const installPaths = await commitStagedJava(stagingDir, target);
+    return { ...result, installPaths };
+  } catch (error) {
+    await discardStagingDir(stagingDir, target);
+    throw error;
+  }
 }
 async function _getInstallationsByPath(): Promise<InstalledJavaVersion[]> {
   const defaultJavaPath = path.join(defaultPaths.unpackPath);
   return await scanJavaInstallations(defaultJavaPath);
 }
+async function _uninstall(
+  versionOrPath: number | string,
+  options: UninstallJavaOptions = {},
+): Promise<JavaRemovalResult> {
+  return uninstallJava(defaultPaths.unpackPath, versionOrPath, options);
+}
+async function _prune(options: PruneJavaOptions = {}): Promise<JavaRemovalResult> {
+  return pruneJavaInstallations(defaultPaths.unpackPath, options);
+}
+
+// ------------------------------------------------------------------
+// 2.  Requirement resolution
+// ------------------------------------------------------------------
+
+export interface JavaResolveOptions
+  extends JavaProviderOptions,
+    JavaResolvePolicy {}
+
+/** Where the best match for a requirement was found. */
+export type JavaResolution =
+  | { source: "installed"; installation: InstalledJavaVersion }
+  | { source: "remote"; release: JavaRelease };
+
+/** Version of a release, from its `javaVersion` field or its name. */
+function getReleaseVersion(release: JavaRelease): JavaVersion | null {
+  const version =
+    (release.javaVersion && parseJavaVersion(release.javaVersion)) ||
+    parseJavaVersion(release.releaseName);
+  return version && version.feature === release.featureVersion ? version : null;
+}
+
+/** Compares patch levels; builds only count when both versions have one. */
+function isNewerPatch(latest: JavaVersion, installed: JavaVersion): boolean {
+  const cmp = compareJavaVersions(
+    { ...latest, build: undefined },
+    { ...installed, build: undefined },
+  );
+  if (cmp) return cmp > 0;
+  return latest.build !== undefined && installed.build !== undefined && latest.build > installed.build;
+}
+
+// Release history pages searched per feature version for patch-level requirements
+const HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGES = 5;
+
+/** Update versions a requirement names exactly for a feature, e.g. "21.0.2" for "=21.0.2". */
+function getRequiredJavaVersions(requirement: JavaRequirement, feature: number): string[] {
+  return requirement.ranges.flatMap((range) =>
+    range
+      .filter((c) => c.operator === "=" && c.parts[0] === feature && c.parts.length > 1)
+      .map((c) => c.parts.join(".")),
+  );
+}
+
+/**
+ * Finds the newest release of a feature version meeting a requirement: the
+ * latest build, else the update version the requirement names (`=21.0.2`),
+ * else the newest match in the provider's release history (`<21.0.3`).
+ * Latest builds without a known version are taken as they are.
+ */
+async function _resolveRemoteRelease(
+  provider: JavaDistributionProvider,
+  feature: number,
+  query: JavaReleaseQuery,
+  requirement: JavaRequirement,
+): Promise<JavaRelease | null> {
+  const satisfies = (release: JavaRelease | null) => {
+    const version = release && getReleaseVersion(release);
+    return Boolean(version && satisfiesJavaRequirement(version, requirement));
+  };
+
+  const latest = await provider.resolveRelease(feature, query);
+  if (!latest) return null;
+  if (!getReleaseVersion(latest) || satisfies(latest)) return latest;
+  // Pinned queries name their release already
+  if (isPinnedQuery(query)) return null;
+
+  for (const javaVersion of getRequiredJavaVersions(requirement, feature)) {
+    const release = await provider.resolveRelease(feature, { ...query, javaVersion });
+    if (satisfies(release)) return release;
+  }
+  if (!provider.listReleaseHistory) return null;
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const releases = await provider.listReleaseHistory(feature, query, {
+      page,
+      pageSize: HISTORY_PAGE_SIZE,
+    });
+    const match = releases.find(satisfies);
+    if (match) return match;
+    if (releases.length < HISTORY_PAGE_SIZE) break;
+  }
+  return null;
+}
+
+/**
+ * Resolves a requirement (`">=17 <22"`, `"^21"`, `"latest lts"`...) against the
+ * installations under `defaultPaths.unpackPath` and the provider's releases.
+ * Policy: an installed match wins unless `preferInstalled` is false, then LTS
+ * versions unless `preferLts` is false or the requirement says `latest`, then
+ * the newest patch. Remote matches start from the latest build of each feature
+ * version and fall back to older builds for patch-level requirements.
+ */
+async function _resolveJava(
+  requirement: number | string,
+  options: JavaResolveOptions = {},
+): Promise<JavaResolution> {
+  const { preferInstalled = true } = options;
+  const parsed = parseJavaRequirement(requirement);
+  // "latest" means the newest version, LTS or not
+  const preferLts = options.preferLts ?? !parsed.latest;
+  const findInstalled = () =>
+    findJavaVersion(defaultPaths.unpackPath, parsed, {
+      imageType: options.imageType === "jre" ? "jre" : "jdk",
+      jvmImpl: options.jvmImpl ?? "hotspot",
+      preferLts,
+    });
+
+  if (preferInstalled) {
+    const installation = await findInstalled();
+    if (installation) return { source: "installed", installation };
+  }
+
+  const provider = options.provider ?? activeProvider;
+  const query = _getReleaseQuery(options);
+  const { available, lts, earlyAccess = [] } =
+    await provider.listFeatureVersions(query);
+  const isLts = (feature: number) => lts.includes(feature);
+  const features = (
+    query.releaseType === "ea" ? [...available, ...earlyAccess] : available
+  ).filter((feature) => featureMatchesJavaRequirement(feature, parsed, isLts));
+
+  const ordered = sortByJavaPreference(
+    features,
+    (feature) => parseJavaVersion(String(feature))!,
+    { preferLts },
+    isLts,
+  );
+  for (const feature of ordered) {
+    const release = await _resolveRemoteRelease(provider, feature, query, parsed);
+    if (release) return { source: "remote", release };
+  }
+
+  if (!preferInstalled) {
+    const installation = await findInstalled();
+    if (installation) return { source: "installed", installation };
+  }
+  throw new Error(
+    `No Java matching "${parsed.raw}" is installed or available from ${provider.name}`,
+  );
+}
+
+// ------------------------------------------------------------------
+// 3.  ensureJava pipeline
+// ------------------------------------------------------------------
+
+/** Stages reported by `ensureJava`, in the order they run. */
+export type EnsureJavaStage =
+  | "resolve"
+  | "download"
+  | "verify"
+  | "extract"
+  | "validate";
+
+export interface EnsureJavaOptions
+  extends JavaProviderOptions,
+    JavaReleasePin,
+    JavaDownloadOptions {
+  /** Reinstall even if a matching installation already exists. */
+  force?: boolean;
+  /** Archive name inside `defaultPaths.downloadPath` (defaults to one derived from the release). */
+  fileName?: string;
+  /** Called every time the pipeline enters a new stage. */
+  onStage?: (stage: EnsureJavaStage, release?: JavaRelease) => void;
+}
+
+/**
+ * Builds the archive file name for a release, keeping the extension of the
+ * remote file so `taskManager.unpack` picks the right extractor.
+ */
+function getReleaseFileName(release: JavaRelease): string {
+  const url = release.downloadUrl.toLowerCase();
+  const ext = url.endsWith(EXTENSIONS.ZIP)
+    ? EXTENSIONS.ZIP
+    : url.endsWith(EXTENSIONS.TAR_GZ)
+      ? EXTENSIONS.TAR_GZ
+      : env.platform.ext;
+  return `${release.releaseName}${getVariantSuffix(release)}-${release.os}-${release.arch}${ext}`;
+}
+
+/**
+ * Finds the installation unpacked from a release: one of the same version and
+ * vendor (GraalVM's "jdk-21.0.2" unpacks to "graalvm-community-openjdk-21.0.2+13.1"),
+ * or one in a folder named after the release (e.g. "jdk-21.0.3+9",
+ * "jdk-21.0.3+9-jre"; EA release "jdk-24+36-ea-beta" unpacks to "jdk-24+36")
+ * or after the pinned update version.
+ */
+async function _findInstalledRelease(
+  release: JavaRelease,
+  query: JavaReleaseQuery,
+): Promise<InstalledJavaVersion | null> {
+  const imageType = query.imageType === "jre" ? "jre" : "jdk";
+  const jvmImpl = query.jvmImpl ?? "hotspot";
+  const version = getReleaseVersion(release);
+  const vendor = release.distribution ? normalizeJavaVendor(release.distribution) : null;
+  const versionPattern =
+    query.javaVersion &&
+    new RegExp(`(^|[^\\d.])${query.javaVersion.replace(/\./g, "\\.")}([^\\d.]|$)`);
+
+  const installations = await scanJavaInstallations(defaultPaths.unpackPath);
+  return (
+    installations.find(
+      (java) =>
+        java.isValid &&
+        java.featureVersion === release.featureVersion &&
+        java.imageType === imageType &&
+        (java.vendor === "openj9" ? "openj9" : "hotspot") === jvmImpl &&
+        ((version &&
+          !isNewerPatch(version, java.version) &&
+          !isNewerPatch(java.version, version) &&
+          (!vendor || !java.vendor || java.vendor === vendor)) ||
+          java.folderName.startsWith(release.releaseName) ||
+          release.releaseName.startsWith(`${java.folderName}-`) ||
+          (versionPattern && versionPattern.test(java.folderName))),
+    ) ?? null
+  );
+}
+
+/**
+ * Makes sure a Java feature version (`21`) or requirement (`">=17 <22"`) is
+ * installed under `defaultPaths.unpackPath`.
+ * Returns the existing installation when there is one; otherwise resolves the
+ * latest release (or the pinned one), downloads it, verifies it, unpacks it and
+ * validates the result. Pinned releases install next to other patch levels.
+ */
+async function _ensureJava(
+  version: number | string,
+  options: EnsureJavaOptions = {},
+): Promise<InstalledJavaVersion> {
+  const { force = false, onStage, imageType = "jdk", jvmImpl = "hotspot" } = options;
+
+  if (imageType !== "jdk" && imageType !== "jre") {
+    throw new Error(`ensureJava can only install jdk or jre images, got: ${imageType}`);
+  }
+  if (env.isTermux()) {
+    throw new Error(
+      `ensureJava is not supported on Termux, use: ${TERMUX_CONSTANTS.INSTALL_CMD_PREFIX}${TERMUX_CONSTANTS.PACKAGE_PREFIX}${version}`,
+    );
+  }
+
+  const provider = options.provider ?? activeProvider;
+  const query = _getReleaseQuery(options);
+  const isRequirement = typeof version === "string" && !/^\d+$/.test(version.trim());
+  // EA builds replace each other often, so like pins they must match the exact release
+  const pinned = Boolean(
+    options.releaseName || options.javaVersion || options.releaseType === "ea",
+  );
+  let release: JavaRelease | null;
+
+  if (isRequirement) {
+    // --- resolve (requirement) ---
+    onStage?.("resolve");
+    const resolution = await _resolveJava(version, {
+      ...options,
+      preferInstalled: !force,
+    });
+    if (resolution.source === "installed") return resolution.installation;
+    release = resolution.release;
+  } else {
+    if (!force && !pinned) {
+      const existing = await findJavaVersion(defaultPaths.unpackPath, version, {
+        imageType,
+        jvmImpl,
+      });
+      if (existing) return existing;
+    }
+
+    // --- resolve ---
+    onStage?.("resolve");
+    release = await provider.resolveRelease(Number(version), query);
+    if (!release) {
+      throw new Error(
+        `No Java ${version} release available from ${provider.name} for ${query.os}/${query.arch}`,
+      );
+    }
+    if (!force && pinned) {
+      const existing = await _findInstalledRelease(release, query);
+      if (existing) return existing;
+    }
+  }
+
+  return _installRelease(release, query, options);
+}
+
+/**
+ * Runs the download, verify, extract and validate stages of `ensureJava` for
+ * a resolved release.
+ * @throws Error if a stage fails or no valid installation was unpacked.
+ */
+async function _installRelease(
+  release: JavaRelease,
+  query: JavaReleaseQuery,
+  options: EnsureJavaOptions = {},
+): Promise<InstalledJavaVersion> {
+  const { onStage } = options;
+
+  // --- download ---
+  onStage?.("download", release);
+  const fileName = options.fileName || getReleaseFileName(release);
+  await _startReleaseDownload(release, fileName, { retry: options.retry }).promise;
+
+  // --- verify ---
+  onStage?.("verify", release);
+  await _verifyDownloadedRelease(release, fileName);
+
+  // --- extract ---
+  onStage?.("extract", release);
+  await _decompressJavaRelease(
+    path.join(defaultPaths.downloadPath, fileName),
+    defaultPaths.unpackPath,
+  );
+
+  // --- validate ---
+  onStage?.("validate", release);
+  const installed =
+    (await _findInstalledRelease(release, query)) ??
+    (await findJavaVersion(defaultPaths.unpackPath, release.featureVersion, {
+      imageType: query.imageType === "jre" ? "jre" : "jdk",
+      jvmImpl: query.jvmImpl ?? "hotspot",
+    }));
+  if (!installed) {
+    throw new Error(
+      `Java ${release.releaseName} was unpacked but no valid installation was found in ${defaultPaths.unpackPath}`,
+    );
+  }
+  return installed;
+}
+// ------------------------------------------------------------------
+// 4.  Updates
+// ------------------------------------------------------------------
+
+/** How an installed feature version compares with the provider's latest release. */
+export interface JavaUpdate {
+  featureVersion: number;
+  imageType: "jdk" | "jre";
+  installed: InstalledJavaVersion; // newest installed patch
+  release: JavaRelease; // latest release of the feature version
+  updateAvailable: boolean;
+}
+
+export interface UpgradeJavaOptions extends JavaProviderOptions {
+  /** Delete the patch upgraded from once the new one has passed validation. */
+  removePrevious?: boolean;
+  /** Called every time the install pipeline enters a new stage. */
+  onStage?: (stage: EnsureJavaStage, release?: JavaRelease) => void;
+}
+
+export interface JavaUpgradeResult {
+  upgraded: boolean; // false when the latest patch was installed already
+  installation: InstalledJavaVersion; // latest patch, now behind the current link
+  previous: InstalledJavaVersion; // patch upgraded from
+  currentLink: string; // e.g. <unpackPath>/current-21
+  removed?: JavaRemovalResult; // with removePrevious
+}
+
+/**
+ * Compares the newest installed patch of each feature version (and image
+ * type) under `defaultPaths.unpackPath` with the provider's latest release.
+ * Only valid installations for this platform are checked. When a release name
+ * has no version, it counts as an update unless it is installed already.
+ */
+async function _checkForUpdates(
+  options: JavaProviderOptions = {},
+): Promise<JavaUpdate[]> {
+  const provider = options.provider ?? activeProvider;
+  const os = normalizeOSName(env.platform.name);
+  const installations = (await scanJavaInstallations(defaultPaths.unpackPath)).filter(
+    (java) =>
+      java.isValid &&
+      (java.arch === env.arch || java.architectures?.includes(env.arch)) &&
+      java.os === os &&
+      (!options.imageType || java.imageType === options.imageType),
+  );
+
+  const newest = new Map<string, InstalledJavaVersion>();
+  for (const java of installations) {
+    const key = `${java.featureVersion}:${java.imageType}`;
+    const current = newest.get(key);
+    if (!current || compareJavaVersions(java.version, current.version) > 0) {
+      newest.set(key, java);
+    }
+  }
+
+  const updates: JavaUpdate[] = [];
+  for (const installed of newest.values()) {
+    const query = _getReleaseQuery({ ...options, imageType: installed.imageType });
+    const release = await provider.resolveRelease(installed.featureVersion, query);
+    if (!release) continue;
+    const latest = getReleaseVersion(release);
+    updates.push({
+      featureVersion: installed.featureVersion,
+      imageType: installed.imageType,
+      installed,
+      release,
+      updateAvailable: latest
+        ? isNewerPatch(latest, installed.version)
+        : !(await _findInstalledRelease(release, query)),
+    });
+  }
+  return updates.sort((a, b) => a.featureVersion - b.featureVersion);
+}
+
+/**
+ * Upgrades an installed feature version to its latest patch. The new patch is
+ * installed next to the old one and must start (`java -XshowSettings`) before
+ * the `current-<feature>` link in `defaultPaths.unpackPath` is switched to it
+ * and, with `removePrevious`, the old patch deleted.
+ * @throws Error if the feature version is not installed or the new patch does not run.
+ */
+async function _upgrade(
+  featureVersion: number,
+  options: UpgradeJavaOptions = {},
+): Promise<JavaUpgradeResult> {
+  const { removePrevious = false, imageType = "jdk", onStage } = options;
+  const [update] = (await _checkForUpdates({ ...options, imageType })).filter(
+    (u) => u.featureVersion === featureVersion,
+  );
+  if (!update) {
+    throw new Error(
+      `Java ${featureVersion} (${imageType}) is not installed in ${defaultPaths.unpackPath}`,
+    );
+  }
+
+  const previous = update.installed;
+  let installation = previous;
+  if (update.updateAvailable) {
+    // Install the release checkForUpdates found, with its checksum
+    onStage?.("resolve", update.release);
+    installation = await _installRelease(
+      update.release,
+      _getReleaseQuery({ ...options, imageType }),
+      options,
+    );
+    if (!(await probeJavaProperties(installation.javaExecutable))) {
+      throw new Error(
+        `Java ${update.release.releaseName} was installed but ${installation.javaExecutable} does not run; ${previous.folderName} is still current`,
+      );
+    }
+  }
+
+  const currentLink = await setCurrentJava(defaultPaths.unpackPath, installation);
+  const upgraded = installation.installPath !== previous.installPath;
+  // The current link has moved on; removePrevious drops the old patch even if JAVA_HOME names it
+  const removed =
+    removePrevious && upgraded
+      ? await uninstallJava(defaultPaths.unpackPath, previous.installPath, { force: true })
+      : undefined;
+  return { upgraded, installation, previous, currentLink, ...(removed && { removed }) };
+}
+
 export const JavaInfoService = {
   getInstallableVersions: asyncHandler(
     _getJavaInstallableVersions,
   ),
   getJavaInfo: asyncHandler(_getJavaInfoByVersion),
+  /** Lists every release of a feature version, newest first, one page at a time. */
+  getReleaseHistory: asyncHandler(_getReleaseHistory),
   downloadJavaRelease: asyncHandler(_downloadJavaRelease),
+  downloadJavaReleaseResumable: asyncHandler(_downloadJavaReleaseResumable),
   filter: asyncHandler(filterReleases),
   decompressJavaRelease: asyncHandler(_decompressJavaRelease),
-  getInstallationsByPath: asyncHandler(_getInstallationsByPath)
+  getInstallationsByPath: asyncHandler(_getInstallationsByPath),
+  /** Removes the installations under `defaultPaths.unpackPath` matching a version, or the one at a path. */
+  uninstall: asyncHandler(_uninstall),
+  /** Removes outdated patches and broken homes under `defaultPaths.unpackPath`. */
+  prune: asyncHandler(_prune),
+  /** Finds the best installed or downloadable Java for a version requirement. */
+  resolveJava: asyncHandler(_resolveJava),
+  /** Installs a Java feature version or requirement if needed and returns the installation. */
+  ensureJava: asyncHandler(_ensureJava),
+  /** Compares each installed feature version with the provider's latest patch. */
+  checkForUpdates: asyncHandler(_checkForUpdates),
+  /** Installs the latest patch of a feature version and points its current link at it. */
+  upgrade: asyncHandler(_upgrade),
+  /** Sets the distribution provider used when a call does not pass one. */
+  setProvider(provider: JavaDistributionProvider): void {
+    activeProvider = provider;
+  },
+  /** Returns the distribution provider currently in use. */
+  getProvider(): JavaDistributionProvider {
+    return activeProvider;
+  },
 };
 export const getJavaInfo = asyncHandler(_getJavaInfoByVersion);
@@ -0,0 +1,161 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {
+  parseJavaRequirement,
+  type JavaRequirement,
+} from "../utils/requirement.js";
+
+export type JavaProjectSource =
+  | "java-version" // .java-version (jenv, jabba, setup-java)
+  | "sdkmanrc" // .sdkmanrc
+  | "tool-versions" // asdf .tool-versions
+  | "maven" // pom.xml
+  | "gradle"; // build.gradle, build.gradle.kts
+
+export interface JavaProjectRequirement {
+  requirement: JavaRequirement; // e.g. parsed from "21.0.3"
+  value: string; // text found in the file, e.g. "21.0.3-tem"
+  source: JavaProjectSource;
+  file: string; // absolute path of the file the requirement came from
+}
+
+export interface FindProjectJavaOptions {
+  /** Last directory to look in; the walk goes up to the filesystem root when omitted. */
+  stopAt?: string;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Turns a version written by a version manager into a requirement. Plain
+ * versions and ranges are kept; vendor-tagged ones such as "21.0.3-tem",
+ * "temurin-17.0.2+8" or "openjdk64-17.0.2" are reduced to their version.
+ */
+function toJavaRequirement(value: string): JavaRequirement | null {
+  try {
+    return parseJavaRequirement(value);
+  } catch {}
+
+  for (const segment of value.split("-")) {
+    const version = segment.replace(/\+.*$/, "");
+    if (!/^\d+(?:[._]\d+)*$/.test(version)) continue;
+    try {
+      return parseJavaRequirement(version);
+    } catch {}
+  }
+  return null;
+}
+
+/** Reads the first non-empty, non-comment line. */
+function parseJavaVersionFile(content: string): string | null {
+  const line = content
+    .split(/\r?\n/)
+    .map((l) => l.replace(/#.*$/, "").trim())
+    .find(Boolean);
+  return line ?? null;
+}
+
+/** Reads `java=21.0.3-tem`. */
+function parseSdkmanrc(content: string): string | null {
+  const match = content.match(/^\s*java\s*=\s*([^\s#]+)/m);
+  return match ? match[1]! : null;
+}
+
+/** Reads `java temurin-21.0.3+9.0.LTS`; only the first of several fallback versions is used. */
+function parseToolVersions(content: string): string | null {
+  const match = content.match(/^\s*java\s+([^\s#]+)/m);
+  return match ? match[1]! : null;
+}
+
+/**
+ * Reads `maven.compiler.release`, then the compiler plugin `<release>`, then
+ * `maven.compiler.source`. `${property}` references are looked up in the same pom.
+ */
+function parsePom(content: string): string | null {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, "");
+  const property = (name: string) =>
+    xml.match(new RegExp(`<${name.replace(/\./g, "\\.")}>\\s*([^<\\s]+)\\s*</`))?.[1];
+
+  const raw =
+    property("maven.compiler.release") ??
+    property("release") ??
+    property("maven.compiler.source");
+  if (!raw) return null;
+  const reference = raw.match(/^\$\{(.+)\}$/);
+  return reference ? (property(reference[1]!) ?? null) : raw;
+}
+
+/** Reads `languageVersion = JavaLanguageVersion.of(21)` or `languageVersion.set(...)` from a toolchain block. */
+function parseGradle(content: string): string | null {
+  const script = content
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/^\s*\/\/.*$/gm, "");
+  const match = script.match(
+    /languageVersion\s*(?:=|\.set\()\s*JavaLanguageVersion\.of\(\s*["']?(\d+)["']?\s*\)/,
+  );
+  return match ? match[1]! : null;
+}
+
+// Files checked in each directory, in order of precedence
+const PROJECT_FILES: Array<{
+  name: string;
+  source: JavaProjectSource;
+  parse: (content: string) => string | null;
+}> = [
+  { name: ".java-version", source: "java-version", parse: parseJavaVersionFile },
+  { name: ".sdkmanrc", source: "sdkmanrc", parse: parseSdkmanrc },
+  { name: ".tool-versions", source: "tool-versions", parse: parseToolVersions },
+  { name: "pom.xml", source: "maven", parse: parsePom },
+  { name: "build.gradle.kts", source: "gradle", parse: parseGradle },
+  { name: "build.gradle", source: "gradle", parse: parseGradle },
+];
+
+// ─────────────────────────────────────────────────────────────
+// Main Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Reads the Java requirement declared in a single directory, without walking up.
+ */
+export async function readProjectJavaRequirement(
+  directory: string,
+): Promise<JavaProjectRequirement | null> {
+  for (const { name, source, parse } of PROJECT_FILES) {
+    const file = path.resolve(directory, name);
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf8");
+    } catch {
+      continue;
+    }
+    const value = parse(content);
+    const requirement = value && toJavaRequirement(value);
+    if (value && requirement) return { requirement, value, source, file };
+  }
+  return null;
+}
+
+/**
+ * Walks up from a directory and returns the first Java requirement declared by
+ * `.java-version`, `.sdkmanrc`, `.tool-versions`, `pom.xml` or a Gradle
+ * toolchain. The nearest directory wins; within a directory the files are
+ * checked in that order. Pass `requirement` to `findJavaVersion` or `ensureJava`.
+ */
+export async function findProjectJavaRequirement(
+  startDir: string,
+  options: FindProjectJavaOptions = {},
+): Promise<JavaProjectRequirement | null> {
+  const stopAt = options.stopAt && path.resolve(options.stopAt);
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const found = await readProjectJavaRequirement(dir);
+    if (found) return found;
+
+    const parent = path.dirname(dir);
+    if (dir === stopAt || parent === dir) return null;
+    dir = parent;
+  }
+}
@@ -0,0 +1,225 @@
+import { ADOPTIUM_API_BASE_URL } from "../../constants.js";
+import { HttpStatusError } from "../../utils/retry.js";
+import {
+  fetchJson,
+  matchesJavaVersion,
+  type JavaDistributionProvider,
+  type JavaFeatureVersions,
+  type JavaRelease,
+  type JavaReleasePage,
+  type JavaReleaseQuery,
+} from "./provider.js";
+
+export interface AdoptiumProviderOptions {
+  /** API root, defaults to `ADOPTIUM_API_BASE_URL`. */
+  baseUrl?: string;
+}
+
+interface AdoptiumPackage {
+  name: string;
+  link: string;
+  checksum: string;
+  size: number;
+}
+
+interface AdoptiumAsset {
+  release_name: string;
+  binary: { package: AdoptiumPackage };
+}
+
+// Release record returned by the /assets/release_name and /assets/feature_releases routes
+interface AdoptiumReleaseRecord {
+  release_name: string;
+  binaries: Array<{ package: AdoptiumPackage }>;
+  version_data: { major: number; semver: string; openjdk_version: string };
+}
+
+// Largest page the Adoptium API serves
+const MAX_PAGE_SIZE = 20;
+
+/**
+ * Creates a provider backed by the Eclipse Adoptium (Temurin) API.
+ */
+export function createAdoptiumProvider(
+  options: AdoptiumProviderOptions = {},
+): JavaDistributionProvider {
+  const baseUrl = options.baseUrl ?? ADOPTIUM_API_BASE_URL;
+
+  function toRelease(
+    feature: number,
+    releaseName: string,
+    pkg: AdoptiumPackage,
+    query: JavaReleaseQuery,
+  ): JavaRelease {
+    return {
+      featureVersion: feature,
+      releaseName,
+      downloadUrl: pkg.link,
+      checksumUrl: pkg.checksum,
+      size: pkg.size,
+      arch: query.arch,
+      os: query.os,
+      distribution: "temurin",
+      imageType: query.imageType ?? "jdk",
+      jvmImpl: query.jvmImpl ?? "hotspot",
+      releaseType: query.releaseType ?? "ga",
+    };
+  }
+
+  /** Keeps the first binary of a release record; the query filters narrow it to one. */
+  function fromRecord(
+    record: AdoptiumReleaseRecord,
+    query: JavaReleaseQuery,
+  ): JavaRelease | null {
+    const binary = record.binaries[0];
+    return binary
+      ? toRelease(record.version_data.major, record.release_name, binary.package, query)
+      : null;
+  }
+
+  function toBinaryParams(query: JavaReleaseQuery): string {
+    const { imageType = "jdk", jvmImpl = "hotspot" } = query;
+    return (
+      `os=${query.os}&architecture=${query.arch}&image_type=${imageType}` +
+      `&jvm_impl=${jvmImpl}&vendor=eclipse&project=jdk`
+    );
+  }
+
+  async function listFeatureVersions(): Promise<JavaFeatureVersions> {
+    const {
+      available_releases,
+      available_lts_releases,
+      most_recent_feature_release,
+      tip_version,
+    } = await fetchJson<{
+      available_releases: number[];
+      available_lts_releases: number[];
+      most_recent_feature_release: number;
+      tip_version: number;
+    }>(`${baseUrl}/info/available_releases`, "Adoptium");
+
+    // Versions after the newest GA up to the development tip only have EA builds
+    const earlyAccess: number[] = [];
+    for (let v = most_recent_feature_release + 1; v <= tip_version; v++) {
+      earlyAccess.push(v);
+    }
+
+    return {
+      available: available_releases,
+      lts: available_lts_releases,
+      earlyAccess,
+      mostRecentFeatureRelease: most_recent_feature_release,
+    };
+  }
+
+  async function listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]> {
+    // The latest-assets route only serves GA builds
+    if (query.releaseType === "ea") {
+      return listReleaseHistory(feature, query, { pageSize: 1 });
+    }
+    const { imageType = "jdk", jvmImpl = "hotspot" } = query;
+    const url =
+      `${baseUrl}/assets/latest/${feature}/${jvmImpl}?` +
+      `os=${query.os}&architecture=${query.arch}&image_type=${imageType}&project=jdk`;
+    const res = await fetch(url);
+    if (res.status === 429 || res.status >= 500) {
+      throw new HttpStatusError(`Adoptium API error: ${res.status}`, res.status);
+    }
+    if (!res.ok) return []; // version might not exist for this platform
+    const payload = (await res.json()) as AdoptiumAsset[];
+
+    return payload.map(({ release_name, binary }) =>
+      toRelease(feature, release_name, binary.package, query),
+    );
+  }
+
+  async function listReleaseRecords(
+    feature: number,
+    query: JavaReleaseQuery,
+    page: number,
+    pageSize: number,
+  ): Promise<AdoptiumReleaseRecord[]> {
+    const url =
+      `${baseUrl}/assets/feature_releases/${feature}/${query.releaseType ?? "ga"}?${toBinaryParams(query)}` +
+      `&page=${page}&page_size=${pageSize}&sort_order=DESC`;
+    const res = await fetch(url);
+    if (res.status === 404) return []; // past the last page
+    if (!res.ok) throw new HttpStatusError(`Adoptium API error: ${res.status}`, res.status);
+    return (await res.json()) as AdoptiumReleaseRecord[];
+  }
+
+  async function listReleaseHistory(
+    feature: number,
+    query: JavaReleaseQuery,
+    page: JavaReleasePage = {},
+  ): Promise<JavaRelease[]> {
+    const records = await listReleaseRecords(
+      feature,
+      query,
+      page.page ?? 0,
+      Math.min(page.pageSize ?? 10, MAX_PAGE_SIZE),
+    );
+    return records
+      .map((r) => fromRecord(r, query))
+      .filter((r): r is JavaRelease => r !== null);
+  }
+
+  async function resolveReleaseName(
+    releaseName: string,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    const url = `${baseUrl}/assets/release_name/eclipse/${encodeURIComponent(releaseName)}?${toBinaryParams(query)}`;
+    const res = await fetch(url);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new HttpStatusError(`Adoptium API error: ${res.status}`, res.status);
+    return fromRecord((await res.json()) as AdoptiumReleaseRecord, query);
+  }
+
+  /** Walks the feature history until a release of the pinned update version shows up. */
+  async function resolveJavaVersion(
+    feature: number,
+    javaVersion: string,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    for (let page = 0; ; page++) {
+      const records = await listReleaseRecords(feature, query, page, MAX_PAGE_SIZE);
+      const match = records.find(
+        ({ version_data }) =>
+          matchesJavaVersion(version_data.semver, javaVersion) ||
+          matchesJavaVersion(version_data.openjdk_version, javaVersion),
+      );
+      if (match) return fromRecord(match, query);
+      if (records.length < MAX_PAGE_SIZE) return null;
+    }
+  }
+
+  async function resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    if (query.releaseName) return resolveReleaseName(query.releaseName, query);
+    if (query.javaVersion) return resolveJavaVersion(feature, query.javaVersion, query);
+    const [latest] = await listReleases(feature, query);
+    return latest ?? null;
+  }
+
+  function getBinaryUrl(feature: number, query: JavaReleaseQuery): string {
+    const { imageType = "jdk", jvmImpl = "hotspot", releaseType = "ga" } = query;
+    return `${baseUrl}/binary/latest/${feature}/${releaseType}/${query.os}/${query.arch}/${imageType}/${jvmImpl}/normal/eclipse?project=jdk`;
+  }
+
+  return {
+    name: "temurin",
+    listFeatureVersions,
+    listReleases,
+    resolveRelease,
+    listReleaseHistory,
+    getBinaryUrl,
+  };
+}
+
+/** Default provider used by `JavaInfoService`. */
+export const adoptiumProvider = createAdoptiumProvider();
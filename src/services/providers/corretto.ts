@@ -0,0 +1,238 @@
+import {
+  CORRETTO_ARCH_MAP,
+  CORRETTO_DOWNLOADS_BASE_URL,
+  CORRETTO_INDEX_URL,
+  CORRETTO_OS_MAP,
+} from "../../constants.js";
+import { HttpStatusError } from "../../utils/retry.js";
+import {
+  assertQuerySupported,
+  fetchJson,
+  isLtsFeature,
+  type JavaDistributionProvider,
+  type JavaFeatureVersions,
+  type JavaRelease,
+  type JavaReleaseQuery,
+} from "./provider.js";
+
+export interface CorrettoProviderOptions {
+  /** Download root, defaults to `CORRETTO_DOWNLOADS_BASE_URL`. */
+  downloadsBaseUrl?: string;
+  /** Latest-links index, defaults to `CORRETTO_INDEX_URL`. */
+  indexUrl?: string;
+  /** Exact Corretto builds to use per feature version, e.g. `{ 17: "17.0.11.9.1" }`. */
+  pinned?: Record<number, string>;
+}
+
+interface CorrettoIndexEntry {
+  resource: string; // e.g. "/downloads/resources/17.0.11.9.1/amazon-corretto-17.0.11.9.1-linux-x64.tar.gz"
+  checksum: string; // md5
+  checksum_sha256: string;
+}
+
+// os -> arch -> image type -> feature version -> archive extension -> entry
+type CorrettoIndex = Record<
+  string,
+  Record<string, Record<string, Record<string, Record<string, CorrettoIndexEntry>>>>
+>;
+
+/**
+ * Creates a provider for Amazon Corretto builds.
+ * Latest builds come from Corretto's published latest-links index, which
+ * carries the sha256 of each archive. Pinned builds are downloaded from the
+ * versioned `resources` path; Corretto publishes no machine-readable checksum
+ * for those, so only their size is verified.
+ */
+export function createCorrettoProvider(
+  options: CorrettoProviderOptions = {},
+): JavaDistributionProvider {
+  const downloadsBaseUrl = (options.downloadsBaseUrl ?? CORRETTO_DOWNLOADS_BASE_URL).replace(/\/+$/, "");
+  const indexUrl = options.indexUrl ?? CORRETTO_INDEX_URL;
+  const pinned = options.pinned ?? {};
+
+  /**
+   * Maps a release query to Corretto's OS/arch names and archive extension.
+   * @throws Error if Corretto has no build for the platform.
+   */
+  function toCorrettoPlatform(query: JavaReleaseQuery) {
+    assertQuerySupported(query, "Corretto", {
+      imageTypes: ["jdk", "jre"],
+      jvmImpls: ["hotspot"],
+    });
+    const os = CORRETTO_OS_MAP[query.os];
+    const arch = CORRETTO_ARCH_MAP[query.arch];
+    if (!os || !arch) {
+      throw new Error(
+        `Platform Unsupported by Corretto: ${query.os}/${query.arch}`,
+      );
+    }
+    const ext = query.os === "windows" ? "zip" : "tar.gz";
+    return { os, arch, ext, imageType: query.imageType ?? "jdk" };
+  }
+
+  /**
+   * Name of a versioned archive, e.g. "amazon-corretto-17.0.11.9.1-linux-x64".
+   * Windows archives always name their image type ("-jdk" or "-jre").
+   */
+  function getArchiveName(version: string, os: string, arch: string, imageType: string): string {
+    const suffix = os === "windows" || imageType === "jre" ? `-${imageType}` : "";
+    return `amazon-corretto-${version}-${os}-${arch}${suffix}`;
+  }
+
+  /**
+   * Reads the archive size with a HEAD request, or null if there is no such archive.
+   * @throws Error if the server fails or does not report a size.
+   */
+  async function fetchSize(url: string): Promise<number | null> {
+    const res = await fetch(url, { method: "HEAD" });
+    const size = Number(res.headers.get("content-length"));
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new HttpStatusError(`Corretto API error: ${res.status} (no size for ${url})`, res.status);
+    }
+    if (!size) {
+      throw new Error(`Corretto API error: ${res.status} (no size for ${url})`);
+    }
+    return size;
+  }
+
+  /**
+   * Resolves the latest build of a feature version. With `updateVersion`
+   * (e.g. "21.0.2"), only a latest build of that update is returned.
+   */
+  async function getLatestRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+    updateVersion?: string,
+  ): Promise<JavaRelease | null> {
+    const { os, arch, ext, imageType } = toCorrettoPlatform(query);
+    const index = await fetchJson<CorrettoIndex>(indexUrl, "Corretto");
+    const entry = index[os]?.[arch]?.[imageType]?.[String(feature)]?.[ext];
+    if (!entry) return null;
+
+    // resource: /downloads/resources/<version>/<file>, kept under the base path for mirrors
+    const version = entry.resource.split("/").slice(-2)[0] ?? String(feature);
+    if (updateVersion && !version.startsWith(`${updateVersion}.`)) return null;
+    const downloadUrl = `${downloadsBaseUrl}${entry.resource.replace(/^\/downloads(?=\/)/, "")}`;
+    const size = await fetchSize(downloadUrl);
+    if (size === null) return null;
+    return {
+      featureVersion: feature,
+      releaseName: `amazon-corretto-${version}-${os}-${arch}`,
+      javaVersion: toJavaVersion(version),
+      downloadUrl,
+      checksumUrl: entry.checksum_sha256,
+      size,
+      arch: query.arch,
+      os: query.os,
+      distribution: "corretto",
+      imageType,
+      jvmImpl: "hotspot",
+    };
+  }
+
+  async function getPinnedRelease(
+    feature: number,
+    version: string,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    const { os, arch, ext, imageType } = toCorrettoPlatform(query);
+    const releaseName = getArchiveName(version, os, arch, imageType);
+    const downloadUrl = `${downloadsBaseUrl}/resources/${version}/${releaseName}.${ext}`;
+    const size = await fetchSize(downloadUrl);
+    if (size === null) return null;
+    return {
+      featureVersion: feature,
+      releaseName,
+      javaVersion: toJavaVersion(version),
+      downloadUrl,
+      checksumUrl: "",
+      size,
+      arch: query.arch,
+      os: query.os,
+      distribution: "corretto",
+      imageType,
+      jvmImpl: "hotspot",
+    };
+  }
+
+  async function listFeatureVersions(
+    query?: JavaReleaseQuery,
+  ): Promise<JavaFeatureVersions> {
+    const index = await fetchJson<CorrettoIndex>(indexUrl, "Corretto");
+    const features = new Set<number>();
+
+    if (query) {
+      const { os, arch, imageType } = toCorrettoPlatform(query);
+      Object.keys(index[os]?.[arch]?.[imageType] ?? {}).forEach((v) => features.add(Number(v)));
+    } else {
+      for (const arches of Object.values(index)) {
+        for (const images of Object.values(arches)) {
+          Object.keys(images.jdk ?? {}).forEach((v) => features.add(Number(v)));
+        }
+      }
+    }
+
+    const available = [...features].filter((v) => v > 0).sort((a, b) => a - b);
+    return { available, lts: available.filter(isLtsFeature) };
+  }
+
+  async function resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    // Builds are named by their full Corretto version, e.g. "17.0.11.9.1"
+    const namedVersion = query.releaseName?.match(/^amazon-corretto-([\d.]+)-/)?.[1];
+    if (query.releaseName && !namedVersion) return null;
+    // An update version ("17.0.11") has no build number to name an archive by;
+    // Corretto lists only its latest builds, so it matches the latest one or none
+    if (!namedVersion && query.javaVersion && !isCorrettoBuild(query.javaVersion)) {
+      return getLatestRelease(feature, query, query.javaVersion);
+    }
+    const version = namedVersion ?? query.javaVersion ?? pinned[feature];
+    return version
+      ? getPinnedRelease(feature, version, query)
+      : getLatestRelease(feature, query);
+  }
+
+  async function listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]> {
+    const release = await resolveRelease(feature, query);
+    return release ? [release] : [];
+  }
+
+  function getBinaryUrl(feature: number, query: JavaReleaseQuery): string {
+    const { os, arch, ext, imageType } = toCorrettoPlatform(query);
+    const version = pinned[feature];
+    if (version) {
+      return `${downloadsBaseUrl}/resources/${version}/${getArchiveName(version, os, arch, imageType)}.${ext}`;
+    }
+    return `${downloadsBaseUrl}/latest/amazon-corretto-${feature}-${arch}-${os}-${imageType}.${ext}`;
+  }
+
+  return {
+    name: "corretto",
+    listFeatureVersions,
+    listReleases,
+    resolveRelease,
+    getBinaryUrl,
+  };
+}
+
+/** Tells whether a version is a full Corretto build, e.g. "17.0.11.9.1" or "8.412.08.1". */
+function isCorrettoBuild(version: string): boolean {
+  return /^\d+(\.\d+){3,}$/.test(version);
+}
+
+/** Java version of a Corretto build: "17.0.11.9.1" -> "17.0.11+9", "8.412.08.1" -> "8u412". */
+function toJavaVersion(build: string): string {
+  const [feature, interim, update, number] = build.split(".");
+  return feature === "8"
+    ? `8u${Number(interim)}`
+    : `${feature}.${interim}.${update}${number ? `+${number}` : ""}`;
+}
+
+/** Shared Corretto provider resolving the latest builds. */
+export const correttoProvider = createCorrettoProvider();
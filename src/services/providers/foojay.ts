@@ -0,0 +1,326 @@
+import {
+  EXTENSIONS,
+  FOOJAY_API_BASE_URL,
+  FOOJAY_ARCH_MAP,
+  FOOJAY_OS_MAP,
+} from "../../constants.js";
+import { compareJavaVersions, parseJavaVersion } from "../../utils/version.js";
+import {
+  assertQuerySupported,
+  fetchJson,
+  isPinnedQuery,
+  matchesJavaVersion,
+  paginate,
+  type JavaDistributionProvider,
+  type JavaFeatureVersions,
+  type JavaRelease,
+  type JavaReleasePage,
+  type JavaReleaseQuery,
+  type JavaReleaseType,
+} from "./provider.js";
+
+export interface FoojayPackageFilters {
+  /** Feature version (21) or exact version ("21.0.3"). */
+  version?: number | string;
+  /** Distributions to include, e.g. ["temurin", "zulu"]. All when omitted. */
+  distributions?: string[];
+  /** Target platform. All platforms when omitted. */
+  query?: JavaReleaseQuery;
+  /** Package type, defaults to "jdk". */
+  imageType?: "jdk" | "jre";
+  /** Release channel, defaults to "ga". */
+  releaseType?: JavaReleaseType;
+  /** Only packages with (true) or without (false) JavaFX. Both when omitted. */
+  javafxBundled?: boolean;
+  /** Archive types, e.g. ["tar.gz", "zip"]. All when omitted. */
+  archiveTypes?: string[];
+  /** Only the latest build of each distribution (default true). */
+  latest?: boolean;
+}
+
+/** A package entry of the Disco catalog. */
+export interface FoojayPackage {
+  id: string;
+  distribution: string; // e.g. "temurin", "zulu", "corretto"
+  featureVersion: number; // e.g. 21
+  javaVersion: string; // e.g. "21.0.3+9"
+  os: string; // Adoptium naming when known, e.g. "mac"
+  arch: string; // Adoptium naming when known, e.g. "x64"
+  archiveType: string; // e.g. "tar.gz"
+  imageType: string; // "jdk" | "jre"
+  javafxBundled: boolean;
+  filename: string;
+  size: number;
+  termOfSupport: string; // "lts" | "mts" | "sts"
+}
+
+export interface FoojayProviderOptions extends Omit<FoojayPackageFilters, "version" | "query"> {
+  /** API root, defaults to `FOOJAY_API_BASE_URL`. */
+  baseUrl?: string;
+}
+
+export interface FoojayProvider extends JavaDistributionProvider {
+  /** Lists catalog packages across every distribution matching the filters. */
+  listPackages(filters?: FoojayPackageFilters): Promise<FoojayPackage[]>;
+  /** Resolves a catalog package to a release with direct download URL and checksum. */
+  resolvePackage(pkg: FoojayPackage): Promise<JavaRelease>;
+}
+
+interface DiscoResponse<T> {
+  result: T[];
+  message: string;
+}
+
+interface DiscoPackage {
+  id: string;
+  archive_type: string;
+  distribution: string;
+  major_version: number;
+  java_version: string;
+  operating_system: string;
+  architecture: string;
+  package_type: string;
+  javafx_bundled: boolean;
+  filename: string;
+  size: number;
+  term_of_support: string;
+}
+
+interface DiscoPackageInfo {
+  filename: string;
+  direct_download_uri: string;
+  checksum: string;
+  checksum_type: string;
+}
+
+interface DiscoMajorVersion {
+  major_version: number;
+  term_of_support: string;
+  early_access_only: boolean;
+}
+
+/** Finds the Adoptium name for a Disco value, keeping the Disco value when unknown. */
+function fromDiscoName(map: Record<string, string | undefined>, value: string): string {
+  return Object.keys(map).find((key) => map[key] === value) ?? value;
+}
+
+/** Orders two package versions newest first; unparsable versions sort last. */
+function compareVersionsDescending(a: string, b: string): number {
+  const left = parseJavaVersion(a);
+  const right = parseJavaVersion(b);
+  if (!left || !right) return Number(!left) - Number(!right);
+  return compareJavaVersions(right, left);
+}
+
+/**
+ * Creates a provider backed by the foojay Disco API, a catalog covering
+ * Temurin, Zulu, Corretto, Liberica, SapMachine, Microsoft and more.
+ * The options set the default filters used by `listReleases` and `resolveRelease`.
+ */
+export function createFoojayProvider(
+  options: FoojayProviderOptions = {},
+): FoojayProvider {
+  const { baseUrl = FOOJAY_API_BASE_URL, ...defaults } = options;
+
+  async function listPackages(
+    filters: FoojayPackageFilters = {},
+  ): Promise<FoojayPackage[]> {
+    const {
+      version,
+      distributions,
+      query,
+      imageType = "jdk",
+      releaseType = "ga",
+      javafxBundled,
+      archiveTypes,
+      latest = true,
+    } = filters;
+
+    const params = new URLSearchParams({
+      package_type: imageType,
+      release_status: releaseType,
+      directly_downloadable: "true",
+    });
+    if (version !== undefined) params.set("version", String(version));
+    if (latest) params.set("latest", "available");
+    if (javafxBundled !== undefined) params.set("javafx_bundled", String(javafxBundled));
+    distributions?.forEach((d) => params.append("distribution", d));
+    archiveTypes?.forEach((t) => params.append("archive_type", t));
+
+    if (query) {
+      const os = FOOJAY_OS_MAP[query.os];
+      const arch = FOOJAY_ARCH_MAP[query.arch];
+      if (!os || !arch) {
+        throw new Error(
+          `Platform Unsupported by foojay: ${query.os}/${query.arch}`,
+        );
+      }
+      params.set("operating_system", os);
+      params.set("architecture", arch);
+    }
+
+    const { result } = await fetchJson<DiscoResponse<DiscoPackage>>(
+      `${baseUrl}/packages?${params.toString()}`,
+      "foojay",
+    );
+    return result.map((p) => ({
+      id: p.id,
+      distribution: p.distribution,
+      featureVersion: p.major_version,
+      javaVersion: p.java_version,
+      os: fromDiscoName(FOOJAY_OS_MAP, p.operating_system),
+      arch: fromDiscoName(FOOJAY_ARCH_MAP, p.architecture),
+      archiveType: p.archive_type,
+      imageType: p.package_type,
+      javafxBundled: p.javafx_bundled,
+      filename: p.filename,
+      size: p.size,
+      termOfSupport: p.term_of_support,
+    }));
+  }
+
+  async function resolvePackage(pkg: FoojayPackage): Promise<JavaRelease> {
+    const { result } = await fetchJson<DiscoResponse<DiscoPackageInfo>>(
+      `${baseUrl}/ids/${pkg.id}`,
+      "foojay",
+    );
+    const info = result[0];
+    if (!info) {
+      throw new Error(`foojay API error: no download info for package ${pkg.id}`);
+    }
+    return {
+      featureVersion: pkg.featureVersion,
+      releaseName: pkg.filename
+        .replace(EXTENSIONS.TAR_GZ, "")
+        .replace(EXTENSIONS.ZIP, ""),
+      javaVersion: pkg.javaVersion,
+      downloadUrl: info.direct_download_uri,
+      // Some vendors only publish md5/sha1, which verifyFileIntegrity does not check
+      checksumUrl: info.checksum_type === "sha256" ? info.checksum : "",
+      size: pkg.size,
+      arch: pkg.arch,
+      os: pkg.os,
+      distribution: pkg.distribution,
+      imageType: pkg.imageType === "jre" ? "jre" : "jdk",
+    };
+  }
+
+  /** Adds the query details the Disco package entries do not carry. */
+  function withQuery(release: JavaRelease, query: JavaReleaseQuery): JavaRelease {
+    return {
+      ...release,
+      jvmImpl: query.jvmImpl ?? "hotspot",
+      releaseType: query.releaseType ?? "ga",
+    };
+  }
+
+  /**
+   * Lists the packages of a feature version using the provider defaults,
+   * ordered by the configured distribution preference. Without `latest`, newer
+   * versions come first and the preference orders each version.
+   */
+  async function listDefaultPackages(
+    feature: number,
+    query: JavaReleaseQuery,
+    latest = true,
+  ): Promise<FoojayPackage[]> {
+    assertQuerySupported(query, "foojay", {
+      imageTypes: ["jdk", "jre"],
+      jvmImpls: ["hotspot", "openj9"],
+      releaseTypes: ["ga", "ea"],
+    });
+    // OpenJ9 builds are published as IBM Semeru
+    const distributions =
+      query.jvmImpl === "openj9" ? ["semeru"] : defaults.distributions;
+    const packages = await listPackages({
+      archiveTypes: [query.os === "windows" ? "zip" : "tar.gz"],
+      ...defaults,
+      ...(query.imageType && { imageType: query.imageType as "jdk" | "jre" }),
+      ...(query.releaseType && { releaseType: query.releaseType }),
+      distributions,
+      version: feature,
+      query,
+      latest,
+    });
+    const preference = distributions ?? [];
+    const rank = (d: string) =>
+      preference.includes(d) ? preference.indexOf(d) : preference.length;
+    return packages
+      .filter((p) => p.featureVersion === feature)
+      .sort(
+        (a, b) =>
+          (latest ? 0 : compareVersionsDescending(a.javaVersion, b.javaVersion)) ||
+          rank(a.distribution) - rank(b.distribution),
+      );
+  }
+
+  async function listFeatureVersions(): Promise<JavaFeatureVersions> {
+    const { result } = await fetchJson<DiscoResponse<DiscoMajorVersion>>(
+      `${baseUrl}/major_versions?ea=true&ga=true&maintained=true`,
+      "foojay",
+    );
+    const ga = result.filter((v) => !v.early_access_only);
+    const available = ga.map((v) => v.major_version).sort((a, b) => a - b);
+    const earlyAccess = result
+      .filter((v) => v.early_access_only)
+      .map((v) => v.major_version)
+      .sort((a, b) => a - b);
+    const lts = ga
+      .filter((v) => v.term_of_support.toLowerCase() === "lts")
+      .map((v) => v.major_version)
+      .sort((a, b) => a - b);
+    return {
+      available,
+      lts,
+      earlyAccess,
+      mostRecentFeatureRelease: available[available.length - 1],
+    };
+  }
+
+  async function listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]> {
+    const packages = await listDefaultPackages(feature, query);
+    const releases = await Promise.all(packages.map(resolvePackage));
+    return releases.map((r) => withQuery(r, query));
+  }
+
+  async function listReleaseHistory(
+    feature: number,
+    query: JavaReleaseQuery,
+    page: JavaReleasePage = {},
+  ): Promise<JavaRelease[]> {
+    const packages = await listDefaultPackages(feature, query, false);
+    const releases = await Promise.all(paginate(packages, page).map(resolvePackage));
+    return releases.map((r) => withQuery(r, query));
+  }
+
+  async function resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    const { releaseName, javaVersion } = query;
+    const [pkg] = (await listDefaultPackages(feature, query, !isPinnedQuery(query))).filter(
+      (p) =>
+        (!releaseName || p.filename.startsWith(`${releaseName}.`)) &&
+        (!javaVersion || matchesJavaVersion(p.javaVersion, javaVersion)),
+    );
+    return pkg
+      ? withQuery(await resolvePackage(pkg), query)
+      : null;
+  }
+
+  return {
+    name: "foojay",
+    listFeatureVersions,
+    listReleases,
+    resolveRelease,
+    listReleaseHistory,
+    listPackages,
+    resolvePackage,
+  };
+}
+
+/** Shared foojay provider using the public Disco API. */
+export const foojayProvider = createFoojayProvider();
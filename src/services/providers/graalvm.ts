@@ -0,0 +1,171 @@
+import {
+  GRAALVM_ARCH_MAP,
+  GRAALVM_OS_MAP,
+  GRAALVM_RELEASES_API_URL,
+} from "../../constants.js";
+import { HttpStatusError } from "../../utils/retry.js";
+import {
+  assertQuerySupported,
+  fetchJson,
+  isLtsFeature,
+  paginate,
+  type JavaDistributionProvider,
+  type JavaFeatureVersions,
+  type JavaRelease,
+  type JavaReleasePage,
+  type JavaReleaseQuery,
+} from "./provider.js";
+
+export interface GraalVMProviderOptions {
+  /** GitHub releases endpoint, defaults to `GRAALVM_RELEASES_API_URL`. */
+  releasesUrl?: string;
+}
+
+interface GitHubRelease {
+  tag_name: string; // e.g. "jdk-21.0.2"
+  draft: boolean;
+  prerelease: boolean;
+  assets: Array<{ name: string; browser_download_url: string; size: number }>;
+}
+
+/**
+ * Creates a provider for GraalVM Community Edition, published as GitHub
+ * releases of `graalvm/graalvm-ce-builds`. Only the `jdk-*` tags (GraalVM
+ * for JDK 17 and later) are considered; each archive has a `.sha256` sibling.
+ */
+export function createGraalVMProvider(
+  options: GraalVMProviderOptions = {},
+): JavaDistributionProvider {
+  const releasesUrl = options.releasesUrl ?? GRAALVM_RELEASES_API_URL;
+
+  /**
+   * Maps a release query to the `<os>-<arch>` suffix used in asset names.
+   * @throws Error if GraalVM CE has no build for the platform.
+   */
+  function toAssetPlatform(query: JavaReleaseQuery): string {
+    assertQuerySupported(query, "GraalVM CE", {
+      imageTypes: ["jdk"],
+      jvmImpls: ["hotspot"],
+    });
+    const os = GRAALVM_OS_MAP[query.os];
+    const arch = GRAALVM_ARCH_MAP[query.arch];
+    if (!os || !arch) {
+      throw new Error(
+        `Platform Unsupported by GraalVM CE: ${query.os}/${query.arch}`,
+      );
+    }
+    return `${os}-${arch}`;
+  }
+
+  function getFeature(tag: string): number | null {
+    const match = tag.match(/^jdk-(\d+)/);
+    return match ? parseInt(match[1]!, 10) : null;
+  }
+
+  async function listGitHubReleases(): Promise<GitHubRelease[]> {
+    const releases = await fetchJson<GitHubRelease[]>(
+      `${releasesUrl}?per_page=100`,
+      "GitHub",
+    );
+    return releases.filter(
+      (r) => !r.draft && !r.prerelease && getFeature(r.tag_name) !== null,
+    );
+  }
+
+  async function toRelease(
+    release: GitHubRelease,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    const ext = query.os === "windows" ? ".zip" : ".tar.gz";
+    const assetName = `graalvm-community-${release.tag_name}_${toAssetPlatform(query)}_bin${ext}`;
+    const asset = release.assets.find((a) => a.name === assetName);
+    const checksumAsset = release.assets.find(
+      (a) => a.name === `${assetName}.sha256`,
+    );
+    if (!asset) return null;
+
+    let checksum = "";
+    if (checksumAsset) {
+      const res = await fetch(checksumAsset.browser_download_url);
+      if (!res.ok) throw new HttpStatusError(`GitHub API error: ${res.status}`, res.status);
+      // "<hash>" or "<hash>  <file name>"
+      checksum = (await res.text()).trim().split(/\s+/)[0] ?? "";
+    }
+
+    return {
+      featureVersion: getFeature(release.tag_name)!,
+      releaseName: `graalvm-community-${release.tag_name}`,
+      downloadUrl: asset.browser_download_url,
+      checksumUrl: checksum,
+      size: asset.size,
+      arch: query.arch,
+      os: query.os,
+      distribution: "graalvm-community",
+      imageType: "jdk",
+      jvmImpl: "hotspot",
+    };
+  }
+
+  async function listFeatureVersions(): Promise<JavaFeatureVersions> {
+    const releases = await listGitHubReleases();
+    const available = [
+      ...new Set(releases.map((r) => getFeature(r.tag_name)!)),
+    ].sort((a, b) => a - b);
+    return { available, lts: available.filter(isLtsFeature) };
+  }
+
+  async function listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]> {
+    const releases = (await listGitHubReleases()).filter(
+      (r) => getFeature(r.tag_name) === feature,
+    );
+    const resolved = await Promise.all(releases.map((r) => toRelease(r, query)));
+    return resolved.filter((r): r is JavaRelease => r !== null);
+  }
+
+  async function listReleaseHistory(
+    feature: number,
+    query: JavaReleaseQuery,
+    page: JavaReleasePage = {},
+  ): Promise<JavaRelease[]> {
+    const releases = (await listGitHubReleases()).filter(
+      (r) => getFeature(r.tag_name) === feature,
+    );
+    const resolved = await Promise.all(
+      paginate(releases, page).map((r) => toRelease(r, query)),
+    );
+    return resolved.filter((r): r is JavaRelease => r !== null);
+  }
+
+  async function resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    // Pins name the tag: "graalvm-community-jdk-21.0.2" or "21.0.2" -> "jdk-21.0.2"
+    const pinnedTag = query.releaseName
+      ? query.releaseName.replace(/^graalvm-community-/, "")
+      : query.javaVersion && `jdk-${query.javaVersion}`;
+    // GitHub lists releases newest first
+    const releases = (await listGitHubReleases()).filter((r) =>
+      pinnedTag ? r.tag_name === pinnedTag : getFeature(r.tag_name) === feature,
+    );
+    for (const release of releases) {
+      const resolved = await toRelease(release, query);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  return {
+    name: "graalvm-community",
+    listFeatureVersions,
+    listReleases,
+    resolveRelease,
+    listReleaseHistory,
+  };
+}
+
+/** Shared GraalVM CE provider using the public GitHub API. */
+export const graalvmProvider = createGraalVMProvider();
@@ -0,0 +1,150 @@
+import { HttpStatusError } from "../../utils/retry.js";
+
+// ------------------------------------------------------------------
+// Types shared by every distribution provider
+// ------------------------------------------------------------------
+export type JavaImageType = "jdk" | "jre" | "staticlibs" | "testimage";
+export type JavaJvmImpl = "hotspot" | "openj9";
+export type JavaReleaseType = "ga" | "ea";
+
+export interface JavaRelease {
+  featureVersion: number; // e.g. 21
+  releaseName: string; // e.g. "jdk-21.0.3+9"
+  javaVersion?: string; // e.g. "21.0.3+9", set when the release name does not spell it out
+  downloadUrl: string; // direct link to the archive
+  checksumUrl: string; // sha256 string
+  size: number; // size in bytes
+  arch: string; // e.g. "x64", "aarch64"
+  os: string; // e.g. "windows", "linux", "mac"
+  distribution?: string; // e.g. "temurin", "zulu"
+  imageType?: JavaImageType; // e.g. "jdk", "jre"
+  jvmImpl?: JavaJvmImpl; // e.g. "hotspot"
+  releaseType?: JavaReleaseType; // "ea" for early-access builds
+  mirrorUrls?: string[]; // same archive elsewhere, tried in order when downloadUrl fails
+  [key: string]: string | number | string[] | undefined;
+}
+
+/**
+ * Platform a release is requested for. Values use the Adoptium vocabulary
+ * (`env.platform.name` and `ADOPTIUM_ARCH_MAP`); providers translate them
+ * to their own API parameters.
+ */
+export interface JavaReleaseQuery {
+  os: string; // e.g. "windows", "linux", "mac"
+  arch: string; // e.g. "x64", "aarch64"
+  imageType?: JavaImageType; // defaults to "jdk"
+  jvmImpl?: JavaJvmImpl; // defaults to "hotspot"
+  releaseType?: JavaReleaseType; // defaults to "ga"
+  releaseName?: string; // pins an exact release, e.g. "jdk-21.0.3+9"
+  javaVersion?: string; // pins an update version, e.g. "17.0.11"
+}
+
+/** Page of a release history; `page` is zero-based. */
+export interface JavaReleasePage {
+  page?: number; // defaults to 0
+  pageSize?: number; // defaults to 10
+}
+
+export interface JavaFeatureVersions {
+  available: number[]; // e.g. [8, 11, 17, 21, 22]
+  lts: number[]; // e.g. [8, 11, 17, 21]
+  earlyAccess?: number[]; // versions with early-access builds only, e.g. [23, 24]
+  mostRecentFeatureRelease?: number; // newest GA feature version, e.g. 22
+}
+
+/**
+ * A source of Java binaries (Adoptium, Zulu, Corretto...).
+ * `JavaInfoService` only talks to vendors through this interface.
+ */
+export interface JavaDistributionProvider {
+  /** Short distribution identifier, e.g. "temurin". */
+  readonly name: string;
+  /** Lists the feature versions the vendor currently publishes, optionally only those built for a platform. */
+  listFeatureVersions(query?: JavaReleaseQuery): Promise<JavaFeatureVersions>;
+  /** Lists the binaries of a feature version for a platform, newest first. */
+  listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]>;
+  /**
+   * Resolves the newest binary of a feature version with its download URL and
+   * checksum, or the one pinned by `query.releaseName` / `query.javaVersion`.
+   */
+  resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null>;
+  /** Lists every binary of a feature version in the query's channel (GA by default), newest first, one page at a time. */
+  listReleaseHistory?(
+    feature: number,
+    query: JavaReleaseQuery,
+    page?: JavaReleasePage,
+  ): Promise<JavaRelease[]>;
+  /** Direct link to the latest binary, for vendors that offer one without a lookup. */
+  getBinaryUrl?(feature: number, query: JavaReleaseQuery): string;
+}
+
+// ------------------------------------------------------------------
+// Helpers for provider implementations
+// ------------------------------------------------------------------
+
+// Used by vendors whose API has no LTS flag
+export { isLtsFeature } from "../../utils/version.js";
+
+/**
+ * Fetches and parses a JSON document.
+ * @param url The URL to fetch.
+ * @param label Vendor name used in the error message.
+ * @throws HttpStatusError if the response status is not OK.
+ */
+export async function fetchJson<T>(url: string, label: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new HttpStatusError(`${label} API error: ${res.status}`, res.status);
+  return (await res.json()) as T;
+}
+
+/**
+ * Rejects image types, JVM implementations or release channels a vendor does
+ * not publish. Only GA releases are assumed unless `releaseTypes` says otherwise.
+ * @throws Error naming the vendor and the unsupported value.
+ */
+export function assertQuerySupported(
+  query: JavaReleaseQuery,
+  label: string,
+  supported: {
+    imageTypes: JavaImageType[];
+    jvmImpls: JavaJvmImpl[];
+    releaseTypes?: JavaReleaseType[];
+  },
+): void {
+  const { imageType = "jdk", jvmImpl = "hotspot", releaseType = "ga" } = query;
+  if (!supported.imageTypes.includes(imageType)) {
+    throw new Error(`Image type Unsupported by ${label}: ${imageType}`);
+  }
+  if (!supported.jvmImpls.includes(jvmImpl)) {
+    throw new Error(`JVM implementation Unsupported by ${label}: ${jvmImpl}`);
+  }
+  if (!(supported.releaseTypes ?? ["ga"]).includes(releaseType)) {
+    throw new Error(`Release type Unsupported by ${label}: ${releaseType}`);
+  }
+}
+
+/** Tells whether a query pins an exact release instead of the latest one. */
+export function isPinnedQuery(query: JavaReleaseQuery): boolean {
+  return Boolean(query.releaseName || query.javaVersion);
+}
+
+/**
+ * Tells whether a vendor version string is the pinned update version,
+ * e.g. "17.0.11+9" and "17.0.11_9" match "17.0.11" but "17.0.110" does not.
+ */
+export function matchesJavaVersion(version: string, pin: string): boolean {
+  if (version === pin) return true;
+  return version.startsWith(pin) && /^[+_-]/.test(version.slice(pin.length));
+}
+
+/** Slices one page out of a full release list. */
+export function paginate<T>(items: T[], page: JavaReleasePage = {}): T[] {
+  const { page: index = 0, pageSize = 10 } = page;
+  return items.slice(index * pageSize, (index + 1) * pageSize);
+}
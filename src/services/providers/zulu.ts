@@ -0,0 +1,189 @@
+import {
+  AZUL_API_BASE_URL,
+  EXTENSIONS,
+  ZULU_ARCH_MAP,
+  ZULU_OS_MAP,
+} from "../../constants.js";
+import {
+  assertQuerySupported,
+  fetchJson,
+  isLtsFeature,
+  type JavaDistributionProvider,
+  type JavaFeatureVersions,
+  type JavaRelease,
+  type JavaReleasePage,
+  type JavaReleaseQuery,
+} from "./provider.js";
+
+export interface ZuluProviderOptions {
+  /** API root, defaults to `AZUL_API_BASE_URL`. */
+  baseUrl?: string;
+}
+
+interface ZuluPackage {
+  package_uuid: string;
+  name: string; // e.g. "zulu17.48.15-ca-jdk17.0.10-linux_x64.tar.gz"
+  java_version: number[]; // e.g. [17, 0, 10]
+  download_url: string;
+}
+
+interface ZuluPackageDetails extends ZuluPackage {
+  sha256_hash: string;
+  size: number;
+}
+
+/**
+ * Creates a provider backed by the Azul Zulu metadata API.
+ * Azul lists packages without checksums, so every resolved release costs
+ * one extra request to the package details endpoint.
+ */
+export function createZuluProvider(
+  options: ZuluProviderOptions = {},
+): JavaDistributionProvider {
+  const baseUrl = options.baseUrl ?? AZUL_API_BASE_URL;
+
+  /**
+   * Maps a release query to Azul's `os`, `arch` and `archive_type` parameters.
+   * @throws Error if Azul has no equivalent for the platform.
+   */
+  function toZuluParams(query: JavaReleaseQuery): URLSearchParams {
+    assertQuerySupported(query, "Zulu", {
+      imageTypes: ["jdk", "jre"],
+      jvmImpls: ["hotspot"],
+      releaseTypes: ["ga", "ea"],
+    });
+    const os = ZULU_OS_MAP[query.os];
+    const arch = ZULU_ARCH_MAP[query.arch];
+    if (!os || !arch) {
+      throw new Error(
+        `Platform Unsupported by Zulu: ${query.os}/${query.arch}`,
+      );
+    }
+    const archiveType = query.os === "windows" ? "zip" : "tar.gz";
+    return new URLSearchParams({
+      os,
+      arch,
+      archive_type: archiveType,
+      java_package_type: query.imageType ?? "jdk",
+      javafx_bundled: "false",
+      release_status: query.releaseType ?? "ga",
+      availability_types: "CA",
+    });
+  }
+
+  async function listPackages(params: URLSearchParams): Promise<ZuluPackage[]> {
+    return fetchJson<ZuluPackage[]>(
+      `${baseUrl}/zulu/packages/?${params.toString()}`,
+      "Azul",
+    );
+  }
+
+  async function toRelease(
+    pkg: ZuluPackage,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease> {
+    const details = await fetchJson<ZuluPackageDetails>(
+      `${baseUrl}/zulu/packages/${pkg.package_uuid}`,
+      "Azul",
+    );
+    return {
+      featureVersion: pkg.java_version[0] ?? 0,
+      releaseName: pkg.name
+        .replace(EXTENSIONS.TAR_GZ, "")
+        .replace(EXTENSIONS.ZIP, ""),
+      javaVersion: pkg.java_version.join("."),
+      downloadUrl: details.download_url,
+      checksumUrl: details.sha256_hash,
+      size: details.size,
+      arch: query.arch,
+      os: query.os,
+      distribution: "zulu",
+      imageType: query.imageType ?? "jdk",
+      jvmImpl: "hotspot",
+      releaseType: query.releaseType ?? "ga",
+    };
+  }
+
+  async function listFeatureVersions(
+    query?: JavaReleaseQuery,
+  ): Promise<JavaFeatureVersions> {
+    const params = query
+      ? toZuluParams(query)
+      : new URLSearchParams({ release_status: "ga" });
+    params.set("latest", "true");
+    params.set("page_size", "1000");
+
+    const packages = await listPackages(params);
+    const available = [
+      ...new Set(packages.map((p) => p.java_version[0] ?? 0)),
+    ]
+      .filter((v) => v > 0)
+      .sort((a, b) => a - b);
+
+    return { available, lts: available.filter(isLtsFeature) };
+  }
+
+  async function listReleases(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease[]> {
+    const params = toZuluParams(query);
+    params.set("java_version", String(feature));
+    params.set("latest", "true");
+
+    const packages = await listPackages(params);
+    return Promise.all(packages.map((pkg) => toRelease(pkg, query)));
+  }
+
+  async function listReleaseHistory(
+    feature: number,
+    query: JavaReleaseQuery,
+    page: JavaReleasePage = {},
+  ): Promise<JavaRelease[]> {
+    const params = toZuluParams(query);
+    params.set("java_version", String(feature));
+    params.set("latest", "false");
+    // Azul pages are one-based
+    params.set("page", String((page.page ?? 0) + 1));
+    params.set("page_size", String(page.pageSize ?? 10));
+
+    const packages = await listPackages(params);
+    return Promise.all(packages.map((pkg) => toRelease(pkg, query)));
+  }
+
+  async function resolveRelease(
+    feature: number,
+    query: JavaReleaseQuery,
+  ): Promise<JavaRelease | null> {
+    const params = toZuluParams(query);
+
+    if (query.releaseName) {
+      // Release names are package names without the archive extension
+      params.set("java_version", String(feature));
+      params.set("latest", "false");
+      params.set("page_size", "1000");
+      const packages = await listPackages(params);
+      const pkg = packages.find((p) => p.name.startsWith(`${query.releaseName}.`));
+      return pkg ? toRelease(pkg, query) : null;
+    }
+
+    // Azul matches java_version as a prefix, so "17.0.11" pins the update
+    params.set("java_version", query.javaVersion ?? String(feature));
+    params.set("latest", "true");
+    params.set("page_size", "1");
+
+    const [pkg] = await listPackages(params);
+    return pkg ? toRelease(pkg, query) : null;
+  }
+
+  return {
+    name: "zulu",
+    listFeatureVersions,
+    listReleases,
+    resolveRelease,
+    listReleaseHistory,
+  };
+}
+
+/** Shared Zulu provider using the public Azul API. */
+export const zuluProvider = createZuluProvider();
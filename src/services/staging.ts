@@ -0,0 +1,187 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { env } from "../platforms/env.js";
+
+// Hidden, so scanJavaInstallations never reports a half-extracted archive
+export const STAGING_PREFIX = ".staging-";
+
+// Folder inside a staging dir holding installations replaced by the commit
+const PREVIOUS_DIR = ".previous";
+
+// ─────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Tells whether a process is still running; EPERM means it is, but owned by someone else. */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Tells whether a folder is a complete Java home: `bin/java` and the
+ * `release` file, directly or under `Contents/Home` for macOS bundles.
+ */
+async function isJavaHome(dir: string): Promise<boolean> {
+  const executable = env.isWindows() ? "java.exe" : "java";
+  for (const home of [dir, path.join(dir, "Contents", "Home")]) {
+    if (
+      (await isFile(path.join(home, "bin", executable))) &&
+      (await isFile(path.join(home, "release")))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Main Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Creates an empty hidden staging directory inside `unpackPath`, named after
+ * the current process so stale ones can be told apart.
+ */
+export async function createStagingDir(unpackPath: string): Promise<string> {
+  const stagingDir = path.join(
+    path.resolve(unpackPath),
+    `${STAGING_PREFIX}${process.pid}-${randomBytes(4).toString("hex")}`,
+  );
+  await fs.mkdir(stagingDir, { recursive: true });
+  return stagingDir;
+}
+
+/**
+ * Lists the installations extracted into a staging directory.
+ * @returns The top-level folders to move into place.
+ * @throws Error if a folder lacks `bin/java` or the `release` file, or nothing was extracted.
+ */
+export async function validateStagedJava(stagingDir: string): Promise<string[]> {
+  const entries = (await fs.readdir(stagingDir, { withFileTypes: true })).filter(
+    (entry) => entry.name !== PREVIOUS_DIR,
+  );
+  const folders = entries.filter((entry) => entry.isDirectory());
+  if (folders.length === 0) {
+    throw new Error(`The archive did not contain a Java installation: ${stagingDir}`);
+  }
+  for (const folder of folders) {
+    if (!(await isJavaHome(path.join(stagingDir, folder.name)))) {
+      throw new Error(
+        `Extracted folder ${folder.name} is not a complete Java installation (missing bin/java or release file)`,
+      );
+    }
+  }
+  return folders.map((folder) => folder.name);
+}
+
+/**
+ * Moves the validated installations of a staging directory into
+ * `unpackPath` with atomic renames, then removes the staging directory.
+ * An existing installation of the same name is replaced; if any rename
+ * fails, the ones done so far are undone and the previous installations restored.
+ * @returns The paths of the installed folders.
+ */
+export async function commitStagedJava(
+  stagingDir: string,
+  unpackPath: string,
+): Promise<string[]> {
+  const names = await validateStagedJava(stagingDir);
+  const previousDir = path.join(stagingDir, PREVIOUS_DIR);
+  const done: Array<{ target: string; replaced: boolean }> = [];
+
+  try {
+    for (const name of names) {
+      const target = path.join(path.resolve(unpackPath), name);
+      const replaced = await exists(target);
+      if (replaced) {
+        await fs.mkdir(previousDir, { recursive: true });
+        await fs.rename(target, path.join(previousDir, name));
+      }
+      done.push({ target, replaced });
+      await fs.rename(path.join(stagingDir, name), target);
+    }
+  } catch (err) {
+    // Roll back in reverse order
+    for (const { target, replaced } of done.reverse()) {
+      const name = path.basename(target);
+      if (await exists(target)) {
+        await fs.rename(target, path.join(stagingDir, name)).catch(() => {});
+      }
+      if (replaced) {
+        await fs.rename(path.join(previousDir, name), target).catch(() => {});
+      }
+    }
+    throw err;
+  }
+
+  await fs.rm(stagingDir, { recursive: true, force: true });
+  return done.map(({ target }) => target);
+}
+
+/**
+ * Deletes a staging directory. Installations a failed or crashed commit had
+ * moved aside are put back first when nothing took their place.
+ */
+export async function discardStagingDir(
+  stagingDir: string,
+  unpackPath: string,
+): Promise<void> {
+  const previousDir = path.join(stagingDir, PREVIOUS_DIR);
+  for (const name of await fs.readdir(previousDir).catch(() => [] as string[])) {
+    const target = path.join(path.resolve(unpackPath), name);
+    if (!(await exists(target))) {
+      await fs.rename(path.join(previousDir, name), target);
+    }
+  }
+  await fs.rm(stagingDir, { recursive: true, force: true });
+}
+
+/**
+ * Removes staging directories left behind by processes that are no longer
+ * running, restoring what they had moved aside.
+ * @returns The removed staging directories.
+ */
+export async function cleanStaleStagingDirs(unpackPath: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(unpackPath);
+  } catch {
+    return [];
+  }
+
+  const removed: string[] = [];
+  for (const name of names) {
+    if (!name.startsWith(STAGING_PREFIX)) continue;
+    const pid = Number.parseInt(name.slice(STAGING_PREFIX.length), 10);
+    if (Number.isNaN(pid)) continue;
+    if (pid === process.pid || isProcessAlive(pid)) continue;
+
+    const stagingDir = path.join(unpackPath, name);
+    await discardStagingDir(stagingDir, unpackPath);
+    removed.push(stagingDir);
+  }
+  return removed;
+}
@@ -0,0 +1,287 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { formatFileSize } from "../utils/folder.js";
+import { compareJavaVersions } from "../utils/version.js";
+import {
+  parseJavaRequirement,
+  satisfiesJavaRequirement,
+  type JavaRequirement,
+} from "../utils/requirement.js";
+import {
+  scanJavaInstallations,
+  type InstalledJavaVersion,
+} from "./installations.js";
+import { readCurrentJavaLinks } from "./current.js";
+
+export interface JavaRemovalResult {
+  removed: InstalledJavaVersion[];
+  reclaimedSize: number; // bytes freed
+  reclaimedSizeFormatted: string; // e.g. "312.45 MB"
+}
+
+export interface UninstallJavaOptions {
+  /** Also remove installations `JAVA_HOME`, `PATH` or a `current-<feature>` link point into (default false). */
+  force?: boolean;
+  /** Environment read for `JAVA_HOME` and `PATH` (default `process.env`). */
+  environment?: Record<string, string | undefined>;
+}
+
+export interface PruneJavaOptions {
+  /** Keep the newest patch of each feature version, image type and vendor (default true). */
+  keepLatestPatchPerFeature?: boolean;
+  /** Only remove installations created before this date (or epoch milliseconds). */
+  olderThan?: Date | number;
+  /** Keep the installations `JAVA_HOME`, `PATH` or a `current-<feature>` link point into (default true). */
+  keepInUse?: boolean;
+  /** Environment read for `JAVA_HOME` and `PATH` (default `process.env`). */
+  environment?: Record<string, string | undefined>;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────
+
+/** Real path of a file, or the resolved path if it does not exist. */
+async function realPath(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+/** Tells whether `target` is strictly inside `parent`. */
+function isInside(parent: string, target: string): boolean {
+  const relative = path.relative(parent, target);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Adds up the size of the files below a folder. Links are counted, not followed.
+ */
+async function getDirectorySize(dir: string): Promise<number> {
+  let size = 0;
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      size += await getDirectorySize(fullPath);
+    } else {
+      try {
+        size += (await fs.lstat(fullPath)).size;
+      } catch {}
+    }
+  }
+  return size;
+}
+
+/**
+ * Deletes installations after checking each one is inside the managed root.
+ * @throws Error if a home is outside the root; nothing is deleted then.
+ */
+async function removeInstallations(
+  root: string,
+  installations: InstalledJavaVersion[],
+): Promise<JavaRemovalResult> {
+  const realRoot = await realPath(root);
+  for (const java of installations) {
+    if (!isInside(realRoot, await realPath(java.installPath))) {
+      throw new Error(
+        `Refusing to delete ${java.installPath}: it is not inside the managed folder ${root}`,
+      );
+    }
+  }
+
+  let reclaimedSize = 0;
+  for (const java of installations) {
+    reclaimedSize += await getDirectorySize(java.installPath);
+    await fs.rm(java.installPath, { recursive: true, force: true });
+  }
+  return {
+    removed: installations,
+    reclaimedSize,
+    reclaimedSizeFormatted: formatFileSize(reclaimedSize),
+  };
+}
+
+/**
+ * Finds the homes `JAVA_HOME` or a `current-<feature>` link points to, or a
+ * `PATH` entry lies in.
+ */
+async function findHomesInUse(
+  root: string,
+  installations: InstalledJavaVersion[],
+  environment: Record<string, string | undefined>,
+): Promise<Set<string>> {
+  const targets = [...(await readCurrentJavaLinks(root)).values()];
+  if (environment.JAVA_HOME) targets.push(await realPath(environment.JAVA_HOME));
+  for (const entry of (environment.PATH ?? "").split(path.delimiter)) {
+    if (entry) targets.push(await realPath(entry));
+  }
+
+  const inUse = new Set<string>();
+  for (const java of installations) {
+    const home = await realPath(java.installPath);
+    if (targets.some((target) => target === home || isInside(home, target))) {
+      inUse.add(java.installPath);
+    }
+  }
+  return inUse;
+}
+
+/** Tells whether a value names a path: it has a separator or exists under `root`. */
+async function isPath(root: string, value: string): Promise<boolean> {
+  if (/[\\/]/.test(value)) return true;
+  try {
+    await fs.lstat(path.resolve(root, value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Tells whether a value reads as a requirement ("21", "17.0.11", ">=17", "^21", "latest lts"), not a name. */
+function isRequirementText(value: string): boolean {
+  return /^\s*(?:[<>=^~]|\d|(?:latest|lts)\b)/i.test(value);
+}
+
+/** Creation time of a home; the last status change where the filesystem has none. */
+async function getCreatedTime(home: string): Promise<number> {
+  const stats = await fs.stat(home);
+  return stats.birthtimeMs || stats.ctimeMs;
+}
+
+/** Tells whether a home has a `bin` folder or a `release` file, not just a Java-like name. */
+async function hasJavaFiles(java: InstalledJavaVersion): Promise<boolean> {
+  for (const file of [java.binPath, path.join(path.dirname(java.binPath), "release")]) {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {}
+  }
+  return false;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Main Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Removes installations found under `root`. A folder name or path (relative
+ * ones resolved against `root`) removes that home; a version (`17`,
+ * `"17.0.11"`) or requirement (`">=17"`) removes every installation it
+ * matches. Installations in use are only removed with `force`.
+ * @throws Error if nothing matches, a match is in use, or the home is not inside `root`.
+ */
+export async function uninstallJava(
+  root: string,
+  versionOrPath: number | string,
+  options: UninstallJavaOptions = {},
+): Promise<JavaRemovalResult> {
+  const { force = false, environment = process.env } = options;
+  // Names such as "jdk-21" would also parse as requirements, so only version-like text counts
+  let requirement: JavaRequirement | null = null;
+  if (
+    typeof versionOrPath === "number" ||
+    (isRequirementText(versionOrPath) && !(await isPath(root, versionOrPath)))
+  ) {
+    try {
+      requirement = parseJavaRequirement(versionOrPath);
+    } catch {}
+  }
+
+  const installations = await scanJavaInstallations(root);
+  const remove = async (matches: InstalledJavaVersion[]) => {
+    if (!force) {
+      const inUse = await findHomesInUse(root, matches, environment);
+      if (inUse.size > 0) {
+        throw new Error(
+          `Refusing to delete ${[...inUse].join(", ")}: JAVA_HOME, PATH or a current link points into it; pass force to delete it anyway`,
+        );
+      }
+    }
+    return removeInstallations(root, matches);
+  };
+
+  if (requirement) {
+    const matches = installations.filter((java) =>
+      satisfiesJavaRequirement(java.version, requirement),
+    );
+    if (matches.length === 0) {
+      throw new Error(`No Java matching "${requirement.raw}" is installed in ${root}`);
+    }
+    return remove(matches);
+  }
+
+  const target = await realPath(path.resolve(root, String(versionOrPath)));
+  if (!isInside(await realPath(root), target)) {
+    throw new Error(
+      `Refusing to delete ${target}: it is not inside the managed folder ${root}`,
+    );
+  }
+  for (const java of installations) {
+    if ((await realPath(java.installPath)) === target) {
+      return remove([java]);
+    }
+  }
+  throw new Error(`No Java installation found at ${target}`);
+}
+
+/**
+ * Removes outdated installations under `root`: every patch but the newest of
+ * each feature version (per image type and vendor), and broken homes (a `bin`
+ * folder or `release` file without a java executable). With
+ * `olderThan`, only installations created before that date are removed; with
+ * `keepLatestPatchPerFeature: false`, the newest patches are removed too.
+ * Installations in use are kept unless `keepInUse` is false.
+ * @throws Error if `keepLatestPatchPerFeature` is false and no `olderThan` is given.
+ */
+export async function pruneJavaInstallations(
+  root: string,
+  options: PruneJavaOptions = {},
+): Promise<JavaRemovalResult> {
+  const {
+    keepLatestPatchPerFeature = true,
+    olderThan,
+    keepInUse = true,
+    environment = process.env,
+  } = options;
+  if (!keepLatestPatchPerFeature && olderThan === undefined) {
+    throw new Error("prune needs keepLatestPatchPerFeature or olderThan, or it would remove every installation");
+  }
+
+  const installations = await scanJavaInstallations(root);
+  const keep = new Set<string>();
+
+  if (keepLatestPatchPerFeature) {
+    const latest = new Map<string, InstalledJavaVersion>();
+    for (const java of installations) {
+      if (!java.isValid) continue;
+      const key = `${java.featureVersion}:${java.imageType}:${java.vendor ?? ""}`;
+      const current = latest.get(key);
+      if (!current || compareJavaVersions(java.version, current.version) > 0) {
+        latest.set(key, java);
+      }
+    }
+    for (const java of latest.values()) keep.add(java.installPath);
+  }
+  if (keepInUse) {
+    for (const home of await findHomesInUse(root, installations, environment)) keep.add(home);
+  }
+
+  const cutoff = olderThan === undefined ? undefined : new Date(olderThan).getTime();
+  const removable: InstalledJavaVersion[] = [];
+  for (const java of installations) {
+    if (keep.has(java.installPath)) continue;
+    // A broken home must hold Java files, not just a name like "jdk-17"
+    if (!java.isValid && !(await hasJavaFiles(java))) continue;
+    if (cutoff !== undefined && (await getCreatedTime(java.installPath)) >= cutoff) continue;
+    removable.push(java);
+  }
+  return removeInstallations(root, removable);
+}
@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+
+export type BinaryFormat = "elf" | "mach-o" | "pe";
+
+/**
+ * Platform an executable was built for, read from its header. `os` and
+ * `arch` use the `InstalledJavaVersion` names.
+ */
+export interface BinaryInfo {
+  format: BinaryFormat;
+  os: string; // "linux", "macos" or "windows"
+  arch: string; // e.g. "x86_64", "x86", "aarch64", "arm"
+  bits: 32 | 64;
+  architectures?: string[]; // every slice of a macOS universal binary
+}
+
+// ELF e_machine values
+const ELF_MACHINES: Record<number, string> = {
+  0x03: "x86",
+  0x3e: "x86_64",
+  0x28: "arm",
+  0xb7: "aarch64",
+  0x14: "ppc",
+  0x15: "ppc64",
+  0x16: "s390x",
+  0xf3: "riscv64",
+};
+
+// PE COFF Machine values
+const PE_MACHINES: Record<number, string> = {
+  0x014c: "x86",
+  0x8664: "x86_64",
+  0x01c0: "arm",
+  0x01c4: "arm",
+  0xaa64: "aarch64",
+};
+
+const MACHO_ABI64 = 0x01000000;
+
+// Mach-O cputype values, without the 64-bit ABI flag
+const MACHO_CPU_TYPES: Record<number, [string, string]> = {
+  7: ["x86", "x86_64"],
+  12: ["arm", "aarch64"],
+  18: ["ppc", "ppc64"],
+};
+
+// Enough for every header field read below
+const HEADER_SIZE = 4096;
+
+function machOArch(cpuType: number): string | null {
+  const names = MACHO_CPU_TYPES[cpuType & ~MACHO_ABI64];
+  if (!names) return null;
+  return cpuType & MACHO_ABI64 ? names[1] : names[0];
+}
+
+function readElf(header: Buffer): BinaryInfo | null {
+  if (header.length < 20) return null;
+  const bits = header[4] === 2 ? 64 : 32; // EI_CLASS
+  const machine = header[5] === 2 ? header.readUInt16BE(18) : header.readUInt16LE(18); // EI_DATA
+  const arch = ELF_MACHINES[machine];
+  return arch ? { format: "elf", os: "linux", arch, bits } : null;
+}
+
+function readPe(header: Buffer): BinaryInfo | null {
+  if (header.length < 0x40) return null;
+  const peOffset = header.readUInt32LE(0x3c);
+  if (peOffset + 6 > header.length) return null;
+  if (header.toString("latin1", peOffset, peOffset + 4) !== "PE\0\0") return null;
+  const arch = PE_MACHINES[header.readUInt16LE(peOffset + 4)];
+  if (!arch) return null;
+  return {
+    format: "pe",
+    os: "windows",
+    arch,
+    bits: arch === "x86_64" || arch === "aarch64" ? 64 : 32,
+  };
+}
+
+function readMachO(header: Buffer): BinaryInfo | null {
+  if (header.length < 8) return null;
+  const magic = header.readUInt32BE(0);
+
+  // Universal binary: a big-endian list of slices
+  if (magic === 0xcafebabe) {
+    const count = header.readUInt32BE(4);
+    // Java class files share the magic; their version field is far larger
+    if (count === 0 || count > 20 || header.length < 8 + count * 20) return null;
+    const architectures: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const arch = machOArch(header.readUInt32BE(8 + i * 20));
+      if (arch) architectures.push(arch);
+    }
+    const [arch] = architectures;
+    if (!arch) return null;
+    return {
+      format: "mach-o",
+      os: "macos",
+      arch,
+      bits: arch === "x86_64" || arch === "aarch64" || arch === "ppc64" ? 64 : 32,
+      architectures,
+    };
+  }
+
+  // Thin binary: 32/64-bit magic in either byte order
+  let cpuType: number;
+  if (magic === 0xfeedface || magic === 0xfeedfacf) {
+    cpuType = header.readUInt32BE(4);
+  } else if (magic === 0xcefaedfe || magic === 0xcffaedfe) {
+    cpuType = header.readUInt32LE(4);
+  } else {
+    return null;
+  }
+  const arch = machOArch(cpuType);
+  if (!arch) return null;
+  return {
+    format: "mach-o",
+    os: "macos",
+    arch,
+    bits: cpuType & MACHO_ABI64 ? 64 : 32,
+  };
+}
+
+/**
+ * Reads the OS, architecture and bitness of an executable from its ELF,
+ * Mach-O or PE header.
+ * @returns The header details, or null if the file is missing or not a known executable format.
+ */
+export async function readBinaryInfo(filePath: string): Promise<BinaryInfo | null> {
+  let header: Buffer;
+  try {
+    const file = await fs.open(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(HEADER_SIZE);
+      const { bytesRead } = await file.read(buffer, 0, HEADER_SIZE, 0);
+      header = buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  } catch {
+    return null;
+  }
+
+  if (header.length < 4) return null;
+  if (header.readUInt32BE(0) === 0x7f454c46) return readElf(header); // "\x7fELF"
+  if (header.toString("latin1", 0, 2) === "MZ") return readPe(header);
+  return readMachO(header);
+}
+
+/**
+ * Maps OS names from any source (`env.platform.name`, release files, JVM
+ * properties) onto the `InstalledJavaVersion` names: "mac" and "darwin"
+ * become "macos". Unknown names are returned lowercased.
+ */
+export function normalizeOSName(os: string): string {
+  const name = os.toLowerCase();
+  if (name === "mac" || name === "darwin" || name === "mac os x" || name === "osx") {
+    return "macos";
+  }
+  if (name === "win32" || name.startsWith("windows")) return "windows";
+  return name;
+}
@@ -1,6 +1,7 @@
 import { exec, execSync, type ExecOptions ,type ExecSyncOptions} from "node:child_process";
 import { promisify } from "node:util";
 import * as path from "node:path";
+import fs from "node:fs/promises";
 import { isWindows, isLinux } from "../platforms/env.js";
 import { asyncHandler } from "./file.js";
 
@@ -292,6 +293,186 @@ export function getLinuxDistroInfo(): LinuxDistroInfo | null {
   }
 }
 
+/**
+ * A Debian/Ubuntu `.jinfo` file from `/usr/lib/jvm`.
+ */
+export interface JavaJinfo {
+  name: string; // e.g. "java-1.17.0-openjdk-amd64"
+  alias?: string; // e.g. "java-17-openjdk-amd64"
+  priority?: number; // e.g. 1711
+  section?: string; // e.g. "main"
+  javaPath?: string; // path of the `java` tool, e.g. "/usr/lib/jvm/java-17-openjdk-amd64/bin/java"
+  tools: Array<{ kind: string; name: string; path: string }>; // e.g. { kind: "jdk", name: "javac", path: ... }
+}
+
+/**
+ * One registered `java` alternative.
+ */
+export interface JavaAlternative {
+  javaPath: string; // e.g. "/usr/lib/jvm/java-17-openjdk-amd64/bin/java"
+  priority?: number; // higher wins in auto mode
+  selected: boolean; // true for the one /etc/alternatives/java points to
+  jinfo?: string; // name of the matching .jinfo file
+}
+
+/**
+ * The system JDKs managed by `update-alternatives`.
+ */
+export interface JavaAlternatives {
+  mode?: "auto" | "manual";
+  selected: string | null; // java path currently selected
+  alternatives: JavaAlternative[]; // highest priority first
+}
+
+export interface JavaAlternativesOptions {
+  /** Folder holding the .jinfo files (default "/usr/lib/jvm"). */
+  jvmDir?: string;
+  /** Link managed by update-alternatives (default "/etc/alternatives/java"). */
+  alternativesLink?: string;
+  /** Run `update-alternatives --query java` / `alternatives --display java` (default true). */
+  query?: boolean;
+}
+
+/**
+ * Parses a `.jinfo` file.
+ */
+export function parseJinfo(content: string): JavaJinfo {
+  const jinfo: JavaJinfo = { name: "", tools: [] };
+  for (const line of content.split(/\r?\n/)) {
+    const setting = line.match(/^(\w+)=(.*)$/);
+    if (setting) {
+      const [, key, value] = setting;
+      if (key === "name") jinfo.name = value!.trim();
+      else if (key === "alias") jinfo.alias = value!.trim();
+      else if (key === "priority") jinfo.priority = Number(value);
+      else if (key === "section") jinfo.section = value!.trim();
+      continue;
+    }
+    const tool = line.match(/^(\w+)\s+(\S+)\s+(\S+)/);
+    if (tool) {
+      jinfo.tools.push({ kind: tool[1]!, name: tool[2]!, path: tool[3]! });
+      if (tool[2] === "java" && !jinfo.javaPath) jinfo.javaPath = tool[3]!;
+    }
+  }
+  return jinfo;
+}
+
+/**
+ * Parses `update-alternatives --query java` (Debian) or
+ * `alternatives --display java` (Fedora, RHEL) output.
+ */
+export function parseJavaAlternatives(output: string): Omit<JavaAlternatives, "alternatives"> & {
+  alternatives: Array<Omit<JavaAlternative, "selected">>;
+} {
+  const alternatives: Array<Omit<JavaAlternative, "selected">> = [];
+  let mode: JavaAlternatives["mode"];
+  let selected: string | null = null;
+
+  // Debian: "Status: auto", "Value: <path>", then "Alternative: <path>" / "Priority: <n>" blocks
+  let current: Omit<JavaAlternative, "selected"> | undefined;
+  for (const line of output.split(/\r?\n/)) {
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(/^Status:\s*(auto|manual)/))) {
+      mode = match[1] as "auto" | "manual";
+    } else if ((match = line.match(/^Value:\s*(\S+)/))) {
+      selected = match[1] === "none" ? null : match[1]!;
+    } else if ((match = line.match(/^Alternative:\s*(\S+)/))) {
+      current = { javaPath: match[1]! };
+      alternatives.push(current);
+    } else if ((match = line.match(/^Priority:\s*(-?\d+)/)) && current) {
+      current.priority = Number(match[1]);
+    }
+    // Fedora: "java - status is auto.", " link currently points to <path>",
+    // "<path> - family <name> priority <n>"
+    else if ((match = line.match(/ - status is (auto|manual)/))) {
+      mode = match[1] as "auto" | "manual";
+    } else if ((match = line.match(/^\s*link currently points to (\S+)/))) {
+      selected = match[1]!;
+    } else if ((match = line.match(/^(\/\S+) - (?:family \S+ )?priority (-?\d+)/))) {
+      alternatives.push({ javaPath: match[1]!, priority: Number(match[2]) });
+    }
+  }
+
+  return { ...(mode && { mode }), selected, alternatives };
+}
+
+/**
+ * Lists the system JDKs registered with `update-alternatives` on Linux,
+ * merging the registered alternatives with the `.jinfo` files of
+ * `/usr/lib/jvm`, and tells which one `/etc/alternatives/java` selects.
+ * @returns No alternatives on other platforms or when none are registered.
+ */
+async function _getJavaAlternatives(
+  options: JavaAlternativesOptions = {},
+): Promise<JavaAlternatives> {
+  const {
+    jvmDir = "/usr/lib/jvm",
+    alternativesLink = "/etc/alternatives/java",
+    query = isLinux(),
+  } = options;
+
+  let parsed: ReturnType<typeof parseJavaAlternatives> = { selected: null, alternatives: [] };
+  if (query) {
+    for (const command of ["update-alternatives --query java", "alternatives --display java"]) {
+      try {
+        parsed = parseJavaAlternatives(String(await _runCommand(command, { silent: true })));
+        break;
+      } catch {
+        // Command missing or no java alternatives registered
+      }
+    }
+  }
+
+  // Debian names them ".java-1.17.0-openjdk-amd64.jinfo"
+  const jinfos: JavaJinfo[] = [];
+  try {
+    for (const name of await fs.readdir(jvmDir)) {
+      if (!name.endsWith(".jinfo")) continue;
+      try {
+        jinfos.push(parseJinfo(await fs.readFile(path.join(jvmDir, name), "utf8")));
+      } catch {}
+    }
+  } catch {
+    // No /usr/lib/jvm
+  }
+
+  let selected = parsed.selected;
+  try {
+    selected = await fs.realpath(alternativesLink);
+  } catch {
+    // Link missing, keep what the query reported
+  }
+
+  const alternatives = new Map<string, JavaAlternative>();
+  for (const { javaPath, priority } of parsed.alternatives) {
+    alternatives.set(javaPath, { javaPath, ...(priority !== undefined && { priority }), selected: false });
+  }
+  for (const jinfo of jinfos) {
+    if (!jinfo.javaPath) continue;
+    const existing = alternatives.get(jinfo.javaPath);
+    alternatives.set(jinfo.javaPath, {
+      javaPath: jinfo.javaPath,
+      ...(jinfo.priority !== undefined && { priority: jinfo.priority }),
+      ...existing,
+      selected: false,
+      jinfo: jinfo.name,
+    });
+  }
+  for (const alternative of alternatives.values()) {
+    alternative.selected =
+      alternative.javaPath === selected ||
+      (selected !== null && (await fs.realpath(alternative.javaPath).catch(() => null)) === selected);
+  }
+
+  return {
+    ...(parsed.mode && { mode: parsed.mode }),
+    selected,
+    alternatives: [...alternatives.values()].sort(
+      (a, b) => (b.priority ?? 0) - (a.priority ?? 0),
+    ),
+  };
+}
+
 /**
  * Detects Java installation paths by executing system commands.
  * Tries multiple methods to find Java installations.
@@ -346,7 +527,15 @@ async function _detectJavaPaths(): Promise<string[]> {
     // java command not available
   }
 
-  // Method 3: Check common installation directories (limited to avoid timeouts)
+  if (isLinux()) {
+    // Method 3: Registered update-alternatives, the selected one first
+    const { alternatives } = await _getJavaAlternatives();
+    for (const { javaPath } of [...alternatives].sort((a, b) => Number(b.selected) - Number(a.selected))) {
+      javaPaths.push(javaPath);
+    }
+  }
+
+  // Method 4: Check common installation directories (limited to avoid timeouts)
   const commonPaths = isWindows()
     ? [
         "C:\\Program Files\\Java",
@@ -426,15 +615,106 @@ export function detectJavaPathsSync(): string[] {
   return [...new Set(javaPaths)].filter(p => p && p.length > 0);
 }
 
+/**
+ * System properties reported by a Java binary.
+ */
+export interface JavaRuntimeProperties {
+  javaVersion: string; // java.runtime.version, else java.version, e.g. "21.0.3+9-LTS"
+  vendor: string; // java.vendor, e.g. "Eclipse Adoptium"
+  javaHome: string; // java.home
+  osArch: string; // os.arch, e.g. "amd64", "aarch64"
+  osName: string; // os.name, e.g. "Linux"
+  dataModel?: number; // sun.arch.data.model, 32 or 64
+  properties: Record<string, string>; // every property printed
+}
+
+export interface ValidateJavaPathOptions {
+  /** Also run the binary and require it to report its properties (default false). */
+  deep?: boolean;
+}
+
+// Probe results per executable, reused while its modification time is unchanged
+const probeCache = new Map<string, { mtimeMs: number; properties: JavaRuntimeProperties }>();
+
+/**
+ * Parses the output of `java -XshowSettings:properties -version`.
+ * Continuation lines of multi-valued properties are ignored.
+ */
+export function parseJavaProperties(output: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(/^\s+([\w.-]+) = (.*)$/);
+    if (match) properties[match[1]!] = match[2]!.trim();
+  }
+  return properties;
+}
+
+/**
+ * Runs `java -XshowSettings:properties -version` and reads the JVM properties
+ * from stderr. Results are cached per executable until it is modified.
+ * @param javaPath Path to the java executable.
+ * @throws Error if the binary cannot be run or reports no `java.version`.
+ */
+async function _probeJavaProperties(javaPath: string): Promise<JavaRuntimeProperties> {
+  const resolved = path.resolve(javaPath);
+  const { mtimeMs } = await fs.stat(resolved);
+  const cached = probeCache.get(resolved);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.properties;
+
+  const { stdout, stderr } = await _runCommandFull(
+    `"${resolved}" -XshowSettings:properties -version`,
+    { silent: true, timeout: 15000 },
+  );
+  const properties = parseJavaProperties(`${stderr}\n${stdout}`);
+  const javaVersion = properties["java.runtime.version"] ?? properties["java.version"];
+  if (!javaVersion) {
+    throw new Error(`No Java properties reported by ${resolved}`);
+  }
+
+  const dataModel = Number(properties["sun.arch.data.model"]);
+  const result: JavaRuntimeProperties = {
+    javaVersion,
+    vendor: properties["java.vendor"] ?? "",
+    javaHome: properties["java.home"] ?? "",
+    osArch: properties["os.arch"] ?? "",
+    osName: properties["os.name"] ?? "",
+    ...(dataModel && { dataModel }),
+    properties,
+  };
+  probeCache.set(resolved, { mtimeMs, properties: result });
+  return result;
+}
+
+/**
+ * Runs a Java binary for its properties, or returns null if it cannot run.
+ * Shares the per-mtime cache with `CommandUtils.probeJava`.
+ */
+export async function probeJavaProperties(
+  javaPath: string,
+): Promise<JavaRuntimeProperties | null> {
+  try {
+    return await _probeJavaProperties(javaPath);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validates if a Java path exists and points to a valid Java executable.
  * @param javaPath The path to validate.
+ * @param options With `deep`, the binary must also run and report its properties.
  * @returns True if the path exists and is executable, false otherwise.
  */
-async function _validateJavaPath(javaPath: string): Promise<boolean> {
+async function _validateJavaPath(
+  javaPath: string,
+  options: ValidateJavaPathOptions = {},
+): Promise<boolean> {
   if (!javaPath || typeof javaPath !== 'string') {
     return false;
   }
+  if (options.deep) {
+    return (await probeJavaProperties(javaPath)) !== null;
+  }
 
   try {
     // Check if file exists and is executable
@@ -494,4 +774,12 @@ export const CommandUtils = {
    * Validates if a Java path exists and is executable
    */
   validateJavaPath: asyncHandler(_validateJavaPath),
+  /**
+   * Runs a Java binary and reads its system properties
+   */
+  probeJava: asyncHandler(_probeJavaProperties),
+  /**
+   * Lists the system JDKs registered with update-alternatives (Linux)
+   */
+  getJavaAlternatives: asyncHandler(_getJavaAlternatives),
 };
@@ -0,0 +1,169 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { HttpStatusError } from "./retry.js";
+
+export interface DownloadProgress {
+  downloaded: number; // bytes on disk, including those kept from an earlier attempt
+  total?: number; // expected size, when the server or caller knows it
+}
+
+export interface DownloadFileOptions {
+  /** Expected size in bytes; a partial file recorded for another size is discarded. */
+  expectedSize?: number;
+  /** Extra request headers. */
+  headers?: Record<string, string>;
+  /** Called after every chunk written. */
+  onProgress?: (progress: DownloadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface DownloadFileResult {
+  filePath: string; // final path of the file
+  size: number; // bytes on disk
+  resumedFrom: number; // bytes kept from an earlier attempt, 0 for a full download
+}
+
+/** Written next to the `.part` file so a later attempt knows what it holds. */
+interface PartialDownload {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  size?: number; // expected total size
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────
+
+async function readPartialDownload(metaPath: string): Promise<PartialDownload | null> {
+  try {
+    return JSON.parse(await fs.readFile(metaPath, "utf8")) as PartialDownload;
+  } catch {
+    return null;
+  }
+}
+
+async function getFileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** Reads the start and total of `Content-Range: bytes 100-199/200`. */
+function parseContentRange(header: string | null): { start: number; total?: number } | null {
+  const match = header?.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/);
+  if (!match) return null;
+  return {
+    start: Number(match[1]),
+    total: match[2] === "*" ? undefined : Number(match[2]),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Main Functions
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Downloads a file through `<filePath>.part`, next to which the URL, ETag and
+ * expected size are kept in `<filePath>.part.json`. When a download drops,
+ * the next call for the same URL asks for the remaining bytes with a `Range`
+ * request (guarded by `If-Range`); a server that ignores ranges or reports a
+ * changed file sends everything again and the part is overwritten. The file
+ * only appears at `filePath` once complete.
+ * @throws HttpStatusError on HTTP errors, TypeError on network failures or a
+ * transfer that ends early; the part is kept for the next call.
+ */
+export async function downloadFile(
+  url: string,
+  filePath: string,
+  options: DownloadFileOptions = {},
+): Promise<DownloadFileResult> {
+  const { expectedSize, onProgress, signal } = options;
+  const partPath = `${filePath}.part`;
+  const metaPath = `${partPath}.json`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const partial = await readPartialDownload(metaPath);
+  let offset = await getFileSize(partPath);
+  const resumable =
+    partial !== null &&
+    partial.url === url &&
+    (expectedSize === undefined || partial.size === undefined || partial.size === expectedSize) &&
+    (partial.size === undefined || offset <= partial.size);
+  if (!resumable) offset = 0;
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (offset > 0) {
+    headers.Range = `bytes=${offset}-`;
+    const validator = partial?.etag ?? partial?.lastModified;
+    if (validator) headers["If-Range"] = validator;
+  }
+
+  let response = await fetch(url, { headers, signal });
+  if (response.status === 416 && offset > 0) {
+    // The part does not fit the file any more; start over
+    await response.body?.cancel();
+    offset = 0;
+    delete headers.Range;
+    delete headers["If-Range"];
+    response = await fetch(url, { headers, signal });
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new HttpStatusError(
+      `Failed to download ${url}: ${response.status} ${response.statusText}`,
+      response.status,
+    );
+  }
+
+  let total: number | undefined;
+  if (response.status === 206) {
+    const range = parseContentRange(response.headers.get("content-range"));
+    if (!range || range.start !== offset) {
+      await response.body?.cancel();
+      throw new Error(`Server answered ${url} with an unexpected range: ${response.headers.get("content-range")}`);
+    }
+    total = range.total;
+  } else {
+    // Full response: the server ignored the range or the file changed
+    offset = 0;
+    const length = response.headers.get("content-length");
+    total = length ? Number(length) : undefined;
+  }
+  total ??= expectedSize;
+  const resumedFrom = offset;
+
+  const metadata: PartialDownload = {
+    url,
+    ...(response.headers.get("etag") && { etag: response.headers.get("etag")! }),
+    ...(response.headers.get("last-modified") && {
+      lastModified: response.headers.get("last-modified")!,
+    }),
+    ...(total !== undefined && { size: total }),
+  };
+  await fs.writeFile(metaPath, JSON.stringify(metadata));
+
+  const file = await fs.open(partPath, offset > 0 ? "a" : "w");
+  let downloaded = offset;
+  try {
+    if (response.body) {
+      for await (const chunk of response.body) {
+        await file.write(chunk);
+        downloaded += chunk.length;
+        onProgress?.({ downloaded, total });
+      }
+    }
+  } finally {
+    await file.close();
+  }
+
+  if (total !== undefined && downloaded !== total) {
+    // A TypeError, like the one fetch throws for a truncated body, so it is retried
+    throw new TypeError(`Download of ${url} ended early: ${downloaded} of ${total} bytes`);
+  }
+  await fs.rename(partPath, filePath);
+  await fs.rm(metaPath, { force: true });
+  return { filePath, size: downloaded, resumedFrom };
+}
@@ -0,0 +1,204 @@
+import {
+  compareJavaVersions,
+  isLtsFeature,
+  parseJavaVersion,
+  type JavaVersion,
+} from "./version.js";
+
+type ComparatorOperator = ">=" | "<=" | ">" | "<" | "=";
+
+interface JavaVersionComparator {
+  operator: ComparatorOperator;
+  parts: number[]; // only the components written in the requirement, e.g. [17, 0, 5]
+}
+
+/**
+ * A parsed version requirement such as `>=17 <22`, `^21`, `17+` or `latest lts`.
+ */
+export interface JavaRequirement {
+  raw: string;
+  /** Alternatives joined by `||`; every comparator of one alternative must hold. */
+  ranges: JavaVersionComparator[][];
+  /** Only LTS feature versions match. */
+  lts: boolean;
+  /** Asks for the newest version (`latest`), so LTS versions should not be preferred. */
+  latest: boolean;
+}
+
+/**
+ * Order in which matching candidates are preferred. Whatever the policy,
+ * the newest patch wins among otherwise equal candidates.
+ */
+export interface JavaResolvePolicy {
+  /** Prefer an installed Java over downloading one (default true). */
+  preferInstalled?: boolean;
+  /** Prefer LTS feature versions over newer non-LTS ones (default true). */
+  preferLts?: boolean;
+}
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)?(.+)$/;
+
+/**
+ * Reads the components a version text spells out: "17" -> [17],
+ * "17.0.5" -> [17, 0, 5], "1.8" -> [8], "8u452" -> [8, 0, 452].
+ */
+function toParts(text: string, raw: string): number[] {
+  const version = parseJavaVersion(text);
+  // Vendor tags such as "-tem" name a distribution, not a version
+  if (!version || version.pre || version.build !== undefined || /[a-z]/i.test(version.vendor ?? "")) {
+    throw new Error(`Invalid Java requirement: ${raw}`);
+  }
+  const all = [version.feature, version.interim, version.update, version.patch];
+  if (/u\d+/i.test(text)) return all.slice(0, 3);
+  if (/^1\.\d+/.test(text) && version.feature !== 1) {
+    return all.slice(0, text.includes("_") ? 3 : 1);
+  }
+  return all.slice(0, Math.min(text.split(".").length, 4));
+}
+
+function parseRange(text: string, raw: string): JavaVersionComparator[] {
+  const comparators: JavaVersionComparator[] = [];
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    let match: RegExpMatchArray | null;
+    if ((match = token.match(/^(.+)\+$/))) {
+      // 17+ -> >=17
+      comparators.push({ operator: ">=", parts: toParts(match[1]!, raw) });
+    } else if ((match = token.match(/^\^(.+)$/))) {
+      // ^21 -> >=21 <22
+      const parts = toParts(match[1]!, raw);
+      comparators.push({ operator: ">=", parts });
+      comparators.push({ operator: "<", parts: [parts[0]! + 1] });
+    } else if ((match = token.match(/^~(.+)$/))) {
+      // ~17.0.5 -> >=17.0.5 <17.1, ~17 -> >=17 <18
+      const parts = toParts(match[1]!, raw);
+      comparators.push({ operator: ">=", parts });
+      comparators.push({
+        operator: "<",
+        parts: parts.length > 1 ? [parts[0]!, parts[1]! + 1] : [parts[0]! + 1],
+      });
+    } else if ((match = token.match(COMPARATOR_PATTERN))) {
+      comparators.push({
+        operator: (match[1] as ComparatorOperator | undefined) ?? "=",
+        parts: toParts(match[2]!, raw),
+      });
+    }
+  }
+  return comparators;
+}
+
+/**
+ * Parses a requirement. Supported forms, combinable with spaces (and) and `||` (or):
+ * `17`, `17.0.11`, `>=17`, `<22`, `^21`, `~17.0.5`, `17+`, `*`/`any`, `latest`, `lts`.
+ * Versions only constrain the components they spell out, so `<22` excludes every 22.x.
+ * @throws Error if the requirement cannot be parsed.
+ */
+export function parseJavaRequirement(input: string | number): JavaRequirement {
+  const raw = String(input).trim();
+  if (!raw) throw new Error(`Invalid Java requirement: ${raw}`);
+  let lts = false;
+  let latest = false;
+
+  const ranges = raw
+    .toLowerCase()
+    .split("||")
+    .map((alternative) => {
+      const text = alternative
+        .replace(/\blts\b/g, () => {
+          lts = true;
+          return " ";
+        })
+        .replace(/\blatest\b/g, () => {
+          latest = true;
+          return " ";
+        })
+        .replace(/\bany\b|\*/g, " ")
+        // ">= 11" -> ">=11"
+        .replace(/(>=|<=|>|<|=)\s+/g, "$1");
+      return parseRange(text, raw);
+    });
+
+  return { raw, ranges, lts, latest };
+}
+
+function compareParts(version: JavaVersion, parts: number[]): number {
+  const actual = [version.feature, version.interim, version.update, version.patch];
+  for (let i = 0; i < parts.length; i++) {
+    const diff = actual[i]! - parts[i]!;
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+function testComparator(cmp: number, operator: ComparatorOperator): boolean {
+  switch (operator) {
+    case ">=":
+      return cmp >= 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case "<":
+      return cmp < 0;
+    case "=":
+      return cmp === 0;
+  }
+}
+
+/**
+ * Tells whether a version meets a requirement. Pre-release tags and builds are
+ * not constrained.
+ */
+export function satisfiesJavaRequirement(
+  version: JavaVersion,
+  requirement: JavaRequirement,
+): boolean {
+  if (requirement.lts && !isLtsFeature(version.feature)) return false;
+  return requirement.ranges.some((comparators) =>
+    comparators.every(({ operator, parts }) =>
+      testComparator(compareParts(version, parts), operator),
+    ),
+  );
+}
+
+/**
+ * Tells whether some release of a feature version could meet a requirement,
+ * e.g. feature 17 for `>17.0.2`. Used to filter remote feature lists before
+ * resolving their releases.
+ */
+export function featureMatchesJavaRequirement(
+  feature: number,
+  requirement: JavaRequirement,
+  isLts: (feature: number) => boolean = isLtsFeature,
+): boolean {
+  if (requirement.lts && !isLts(feature)) return false;
+  return requirement.ranges.some((comparators) =>
+    comparators.every(({ operator, parts }) => {
+      const cmp = feature - parts[0]!;
+      // Within the same feature, finer components can still go either way
+      if (cmp === 0 && parts.length > 1) return true;
+      return testComparator(cmp, operator);
+    }),
+  );
+}
+
+/**
+ * Orders candidates by preference: LTS first (unless `preferLts` is false),
+ * then newest version first.
+ */
+export function sortByJavaPreference<T>(
+  candidates: T[],
+  getVersion: (candidate: T) => JavaVersion,
+  policy: JavaResolvePolicy = {},
+  isLts: (feature: number) => boolean = isLtsFeature,
+): T[] {
+  const { preferLts = true } = policy;
+  return [...candidates].sort((a, b) => {
+    const va = getVersion(a);
+    const vb = getVersion(b);
+    if (preferLts) {
+      const lts = Number(isLts(vb.feature)) - Number(isLts(va.feature));
+      if (lts) return lts;
+    }
+    return compareJavaVersions(vb, va);
+  });
+}
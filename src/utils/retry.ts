@@ -0,0 +1,93 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+/**
+ * How failed requests are retried. Delays grow from `initialDelay` by
+ * `backoffFactor` up to `maxDelay`, each shifted by up to `jitter` of itself.
+ */
+export interface RetryPolicy {
+  /** Attempts per URL, the first included (default 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 1000). */
+  initialDelay?: number;
+  /** Factor the delay grows by after each retry (default 2). */
+  backoffFactor?: number;
+  /** Longest delay in milliseconds (default 30000). */
+  maxDelay?: number;
+  /** Share of each delay randomized, from 0 to 1, so clients do not retry in lockstep (default 0.2). */
+  jitter?: number;
+  /** HTTP statuses worth retrying (default 408, 425, 429, 500, 502, 503, 504). */
+  retryableStatusCodes?: number[];
+}
+
+export interface RetryAttempt {
+  attempt: number; // 1 for the first try
+  maxAttempts: number;
+  lastError?: unknown; // failure of the previous attempt
+  delay?: number; // milliseconds waited before this attempt
+}
+
+/** Error for an HTTP response with a failing status, so retry policies can read it. */
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Tells whether a failure is worth another attempt: a retryable HTTP status,
+ * or a network failure, which `fetch` reports as a TypeError (refused, reset
+ * or dropped connections, DNS errors, truncated bodies). Aborts never are.
+ */
+export function isRetryableError(
+  error: unknown,
+  retryableStatusCodes: number[] = DEFAULT_RETRYABLE_STATUS_CODES,
+): boolean {
+  if (error instanceof HttpStatusError) return retryableStatusCodes.includes(error.status);
+  if (error instanceof Error && error.name === "AbortError") return false;
+  return error instanceof TypeError;
+}
+
+/** Delay before a retry; `retry` is 1 for the first one. */
+export function getRetryDelay(retry: number, policy: RetryPolicy = {}): number {
+  const { initialDelay = 1000, backoffFactor = 2, maxDelay = 30000, jitter = 0.2 } = policy;
+  const delay = Math.min(maxDelay, initialDelay * backoffFactor ** (retry - 1));
+  return Math.max(0, Math.round(delay * (1 + jitter * (2 * Math.random() - 1))));
+}
+
+/**
+ * Runs an operation until it succeeds, fails with an error that is not
+ * retryable, or runs out of attempts.
+ * @param onAttempt Called before every attempt, the first included.
+ * @throws The last error.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {},
+  onAttempt?: (attempt: RetryAttempt) => void,
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+  let lastError: unknown;
+
+  for (let attempt = 1; ; attempt++) {
+    let delay: number | undefined;
+    if (attempt > 1) {
+      delay = getRetryDelay(attempt - 1, policy);
+      await sleep(delay);
+    }
+    onAttempt?.({ attempt, maxAttempts, lastError, delay });
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error;
+      if (attempt >= maxAttempts || !isRetryableError(error, policy.retryableStatusCodes)) {
+        throw error;
+      }
+    }
+  }
+}
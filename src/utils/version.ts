@@ -0,0 +1,158 @@
+/**
+ * A Java version split into its JEP 223 parts.
+ * Legacy versions are mapped onto the same fields: `1.8.0_392-b08` and
+ * `8u392-b08` both become feature 8, update 392, build 8.
+ */
+export interface JavaVersion {
+  feature: number; // e.g. 21
+  interim: number; // e.g. 0
+  update: number; // e.g. 3
+  patch: number; // e.g. 0
+  build?: number; // e.g. 9 in "21.0.3+9"
+  pre?: string; // pre-release tag, e.g. "ea", "beta"
+  vendor?: string; // other suffixes, e.g. "LTS" in "17.0.2+8-LTS" or "tem" in "21.0.3-tem"
+  raw: string; // the parsed input, trimmed
+}
+
+export interface FormatJavaVersionOptions {
+  /** Include the `+build` part (default true). */
+  build?: boolean;
+  /** Use the `1.8.0_392-b08` scheme for Java 8 and older (default false). */
+  legacy?: boolean;
+}
+
+// 1.8.0_392-b08, 1.8.0-ea-b12, 1.7.0_80, 1.8
+const LEGACY_PATTERN =
+  /^1\.(\d+)(?:\.(\d+))?(?:_(\d+))?(?:-(?!b\d+(?:-|$))([a-zA-Z][a-zA-Z0-9]*))?(?:-b(\d+))?(?:-(.+))?$/;
+// 8u452, 8u452-b09
+const UPDATE_PATTERN = /^(\d+)u(\d+)(?:-b(\d+))?(?:-(.+))?$/;
+// $VNUM(-$PRE)?(+$BUILD)?(-$OPT)?  e.g. 21.0.3+9, 17.0.11-ea, 21-ea+20, 17.0.2+8-LTS, 17.0.11_9
+const JEP223_PATTERN =
+  /^(\d+(?:\.\d+)*)(?:-([a-zA-Z0-9]+))?(?:[+_](\d+))?(?:[-.](.+))?$/;
+// Tags that mark a pre-release; others, like SDKMAN's "tem" in "21.0.3-tem", name a vendor
+const PRE_RELEASE_PATTERN = /^(?:ea|alpha|beta|rc|internal|snapshot)\d*$/i;
+
+/** Splits a tag after the version into a pre-release tag or vendor data. */
+function splitTag(tag: string | undefined): { pre?: string; vendor?: string } {
+  if (tag === undefined) return {};
+  return PRE_RELEASE_PATTERN.test(tag) ? { pre: tag } : { vendor: tag };
+}
+
+/**
+ * Parses a Java version string. Leading `jdk-`, `jdk` and `v` prefixes are ignored.
+ * @returns The parsed version, or null if the text is not a Java version.
+ */
+export function parseJavaVersion(text: string): JavaVersion | null {
+  const raw = text.trim();
+  const input = raw.replace(/^(?:jdk-?|v)/i, "");
+
+  const legacy = input.match(LEGACY_PATTERN);
+  if (legacy) {
+    const { pre, vendor: tag } = splitTag(legacy[4]);
+    const vendor = [tag, legacy[6]].filter(Boolean).join("-");
+    return {
+      feature: Number(legacy[1]),
+      interim: 0,
+      update: Number(legacy[3] ?? 0),
+      patch: 0,
+      ...(legacy[5] !== undefined && { build: Number(legacy[5]) }),
+      ...(pre !== undefined && { pre }),
+      ...(vendor && { vendor }),
+      raw,
+    };
+  }
+
+  const update = input.match(UPDATE_PATTERN);
+  if (update) {
+    return {
+      feature: Number(update[1]),
+      interim: 0,
+      update: Number(update[2]),
+      patch: 0,
+      ...(update[3] !== undefined && { build: Number(update[3]) }),
+      ...(update[4] !== undefined && { vendor: update[4] }),
+      raw,
+    };
+  }
+
+  const jep = input.match(JEP223_PATTERN);
+  if (jep) {
+    const [feature = 0, interim = 0, updateNumber = 0, patch = 0, ...extra] = jep[1]!
+      .split(".")
+      .map(Number);
+    const { pre, vendor: tag } = splitTag(jep[2]);
+    // Components past $PATCH (e.g. Corretto's "17.0.11.9.1") are kept as vendor data
+    const vendor = [extra.join("."), tag, jep[4]].filter(Boolean).join("-");
+    return {
+      feature,
+      interim,
+      update: updateNumber,
+      patch,
+      ...(jep[3] !== undefined && { build: Number(jep[3]) }),
+      ...(pre !== undefined && { pre }),
+      ...(vendor && { vendor }),
+      raw,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a version in JEP 223 style, dropping trailing zero parts:
+ * `21`, `21.0.3+9`, `24-ea+20`. With `legacy`, Java 8 and older use `1.8.0_392-b08`.
+ */
+export function formatJavaVersion(
+  version: JavaVersion,
+  options: FormatJavaVersionOptions = {},
+): string {
+  const { build = true, legacy = false } = options;
+  const { feature, interim, update, patch, pre } = version;
+
+  if (legacy && feature <= 8) {
+    return (
+      `1.${feature}.0` +
+      (update ? `_${update}` : "") +
+      (pre ? `-${pre}` : "") +
+      (build && version.build !== undefined ? `-b${String(version.build).padStart(2, "0")}` : "")
+    );
+  }
+
+  const parts = [feature, interim, update, patch];
+  while (parts.length > 1 && parts[parts.length - 1] === 0) parts.pop();
+  return (
+    parts.join(".") +
+    (pre ? `-${pre}` : "") +
+    (build && version.build !== undefined ? `+${version.build}` : "")
+  );
+}
+
+/**
+ * Orders two versions by feature, interim, update, patch, then pre-release
+ * (a pre-release sorts before its GA) and build. Vendor data is ignored.
+ * @returns A negative number if `a` is older, positive if newer, 0 if equal.
+ */
+export function compareJavaVersions(a: JavaVersion, b: JavaVersion): number {
+  const numeric =
+    a.feature - b.feature ||
+    a.interim - b.interim ||
+    a.update - b.update ||
+    a.patch - b.patch;
+  if (numeric) return numeric;
+
+  if (a.pre !== b.pre) {
+    if (a.pre === undefined) return 1;
+    if (b.pre === undefined) return -1;
+    return a.pre.localeCompare(b.pre, undefined, { numeric: true });
+  }
+
+  return (a.build ?? 0) - (b.build ?? 0);
+}
+
+/**
+ * Tells whether a feature version is an LTS release (8, 11, then every
+ * fourth release from 17).
+ */
+export function isLtsFeature(feature: number): boolean {
+  return feature === 8 || feature === 11 || (feature >= 17 && (feature - 17) % 4 === 0);
+}
@@ -0,0 +1,33 @@
+import fs from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Writes a `java` shell script that prints `-XshowSettings:properties`
+ * output to stderr, like a real JVM. POSIX shells only.
+ * @returns The path of the script.
+ */
+export async function writeFakeJava(
+  binDir: string,
+  properties: Record<string, string>,
+): Promise<string> {
+  const settings = Object.entries(properties)
+    .map(([key, value]) => `    ${key} = ${value}`)
+    .join("\n");
+  const version = properties["java.version"] ?? "0";
+  const script = [
+    "#!/bin/sh",
+    "cat >&2 <<'END'",
+    "Property settings:",
+    settings,
+    "    java.library.path = /usr/lib",
+    "        /lib",
+    "",
+    `openjdk version "${version}"`,
+    "END",
+    "",
+  ].join("\n");
+  await fs.mkdir(binDir, { recursive: true });
+  const javaPath = join(binDir, "java");
+  await fs.writeFile(javaPath, script, { mode: 0o755 });
+  return javaPath;
+}
@@ -30,7 +30,7 @@ describe("Environment detection utilities", () => {
   it("should get architecture information", () => {
     const arch = getArchitecture();
     expect(typeof arch).toBe("string");
-    expect(["arm", "aarch64", "x86_64"].includes(arch)).toBe(true);
+    expect(["x86", "arm", "aarch64", "x86_64"].includes(arch)).toBe(true);
   });
 
   it("should export a comprehensive env object", () => {
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import {
+  getCurrentJavaLinkName,
+  readCurrentJavaLinks,
+  setCurrentJava,
+} from "../../src/services/current.js";
+import { scanJavaInstallations } from "../../src/services/installations.js";
+import { env } from "../../src/platforms/env.js";
+
+describe("Current Java links", () => {
+  let testDir: string;
+  const exe = env.isWindows() ? ".exe" : "";
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-current-test-${Date.now()}`);
+    for (const name of ["jdk-21.0.2+13", "jdk-21.0.3+9"]) {
+      await fs.mkdir(join(testDir, name, "bin"), { recursive: true });
+      await fs.writeFile(join(testDir, name, "bin", `java${exe}`), "");
+      await fs.writeFile(join(testDir, name, "bin", `javac${exe}`), "");
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should name links after the feature version and image type", () => {
+    expect(getCurrentJavaLinkName(21)).toBe("current-21");
+    expect(getCurrentJavaLinkName(17, "jre")).toBe("current-17-jre");
+  });
+
+  it("should point the link at a home and switch it", async () => {
+    const [older, newer] = (await scanJavaInstallations(testDir)).sort((a, b) =>
+      a.folderName.localeCompare(b.folderName),
+    );
+
+    const link = await setCurrentJava(testDir, older!);
+    expect(link).toBe(join(testDir, "current-21"));
+    expect(await fs.realpath(link)).toBe(await fs.realpath(older!.installPath));
+
+    await setCurrentJava(testDir, newer!);
+    const links = await readCurrentJavaLinks(testDir);
+    expect([...links.keys()]).toEqual([link]);
+    expect(links.get(link)).toBe(await fs.realpath(newer!.installPath));
+
+    // Links are not reported as installations of their own
+    expect(await scanJavaInstallations(testDir)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import {
+  discoverJavaInstallations,
+  parseMavenToolchains,
+} from "../../src/services/discovery.js";
+import { env } from "../../src/platforms/env.js";
+
+describe("Java installation discovery", () => {
+  let homeDir: string;
+  const exe = env.isWindows() ? "java.exe" : "java";
+
+  beforeEach(async () => {
+    homeDir = join(tmpdir(), `java-discovery-test-${Date.now()}`);
+    await fs.mkdir(homeDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  async function createHome(home: string, release?: string) {
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", exe), "fake java executable");
+    if (release) await fs.writeFile(join(home, "release"), release);
+    return home;
+  }
+
+  it.skipIf(env.isWindows())("should find JDKs managed by version and package managers", async () => {
+    const sdkman = await createHome(join(homeDir, ".sdkman", "candidates", "java", "21.0.3-tem"));
+    await fs.symlink(sdkman, join(homeDir, ".sdkman", "candidates", "java", "current"));
+    const asdf = await createHome(join(homeDir, ".asdf", "installs", "java", "temurin-17.0.2+8"));
+    const jabba = await createHome(join(homeDir, ".jabba", "jdk", "zulu@1.11.0"));
+    await fs.mkdir(join(homeDir, ".jenv", "versions"), { recursive: true });
+    await fs.symlink(asdf, join(homeDir, ".jenv", "versions", "17"));
+    const mise = await createHome(join(homeDir, ".local", "share", "mise", "installs", "java", "22.0.1"));
+    await fs.symlink(mise, join(homeDir, ".local", "share", "mise", "installs", "java", "22"));
+
+    const brew = join(homeDir, "brew");
+    const keg = await createHome(
+      join(brew, "Cellar", "openjdk@17", "17.0.11", "libexec"),
+      'JAVA_VERSION="17.0.11"\n',
+    );
+    await fs.mkdir(join(brew, "opt"), { recursive: true });
+    await fs.symlink(join(brew, "Cellar", "openjdk@17", "17.0.11"), join(brew, "opt", "openjdk@17"));
+    await fs.mkdir(join(brew, "opt", "node", "bin"), { recursive: true });
+
+    const found = await discoverJavaInstallations({
+      homeDir,
+      environment: { HOMEBREW_PREFIX: brew },
+    });
+    const sources = Object.fromEntries(found.map((java) => [java.installPath, java.source]));
+
+    expect(found.length).toBe(5);
+    expect(sources).toEqual({
+      [sdkman]: "sdkman",
+      [asdf]: "asdf",
+      [jabba]: "jabba",
+      [mise]: "mise",
+      [keg]: "homebrew",
+    });
+    expect(found.find((java) => java.source === "sdkman")?.featureVersion).toBe(21);
+    expect(found.find((java) => java.source === "jabba")?.featureVersion).toBe(11);
+    expect(found.find((java) => java.source === "homebrew")?.version.update).toBe(11);
+  });
+
+  it("should find JDKs provisioned by IDEs and build tools", async () => {
+    const intellij = await createHome(join(homeDir, ".jdks", "corretto-17.0.11"));
+    const gradle = await createHome(
+      join(homeDir, ".gradle", "jdks", "eclipse_adoptium-21-amd64-linux", "jdk-21.0.3+9"),
+    );
+    await fs.writeFile(join(homeDir, ".gradle", "jdks", "eclipse_adoptium-21-amd64-linux.lock"), "");
+    const vscode = await createHome(
+      join(homeDir, ".vscode", "extensions", "redhat.java-1.30.0-linux-x64", "jre", "17.0.10-linux-x86_64"),
+      'JAVA_VERSION="17.0.10"\n',
+    );
+    await fs.mkdir(join(homeDir, ".vscode", "extensions", "ms-python.python-2024.4.1"), { recursive: true });
+
+    const toolchainJdk = await createHome(join(homeDir, "opt", "jdk-11.0.23+9"));
+    await fs.mkdir(join(homeDir, ".m2"), { recursive: true });
+    await fs.writeFile(
+      join(homeDir, ".m2", "toolchains.xml"),
+      `<toolchains>
+  <toolchain>
+    <type>jdk</type>
+    <provides><version>11</version></provides>
+    <configuration><jdkHome>\${user.home}/opt/jdk-11.0.23+9</jdkHome></configuration>
+  </toolchain>
+  <toolchain>
+    <type>jdk</type>
+    <configuration><jdkHome>/does/not/exist</jdkHome></configuration>
+  </toolchain>
+</toolchains>`,
+    );
+
+    const found = await discoverJavaInstallations({
+      homeDir,
+      environment: {},
+      sources: ["intellij", "gradle", "maven", "vscode"],
+    });
+    expect(Object.fromEntries(found.map((java) => [java.installPath, java.source]))).toEqual({
+      [intellij]: "intellij",
+      [gradle]: "gradle",
+      [toolchainJdk]: "maven",
+      [vscode]: "vscode",
+    });
+  });
+
+  it("should expand references in Maven toolchains", () => {
+    const homes = parseMavenToolchains(
+      `<toolchains>
+  <!-- <toolchain><type>jdk</type><configuration><jdkHome>/old</jdkHome></configuration></toolchain> -->
+  <toolchain><type>jdk</type><configuration><jdkHome>\${env.JAVA17_HOME}</jdkHome></configuration></toolchain>
+  <toolchain><type>netbeans</type><configuration><installDir>/nb</installDir></configuration></toolchain>
+</toolchains>`,
+      { homeDir: "/home/dev", environment: { JAVA17_HOME: "/opt/jdk-17" } },
+    );
+    expect(homes).toEqual(["/opt/jdk-17"]);
+  });
+
+  it("should honor tool environment variables and source filters", async () => {
+    const sdkmanDir = join(homeDir, "custom-sdkman");
+    const home = await createHome(join(sdkmanDir, "candidates", "java", "17.0.11-amzn"));
+    await createHome(join(homeDir, ".asdf", "installs", "java", "temurin-21.0.3+9.0.LTS"));
+
+    const found = await discoverJavaInstallations({
+      homeDir,
+      environment: { SDKMAN_DIR: sdkmanDir },
+      sources: ["sdkman"],
+    });
+    expect(found.map((java) => [java.installPath, java.source])).toEqual([[home, "sdkman"]]);
+  });
+
+  it("should return nothing when no tool is installed", async () => {
+    expect(await discoverJavaInstallations({ homeDir, environment: { HOMEBREW_PREFIX: homeDir } })).toEqual([]);
+  });
+});
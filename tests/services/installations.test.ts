@@ -9,6 +9,7 @@ import {
 } from "../../src/services/installations.js";
 import { FileUtils } from "../../src/utils/file.js";
 import { env } from "../../src/platforms/env.js";
+import { writeFakeJava } from "../fixtures/fake-java.js";
 
 describe("Java installations service", () => {
   let testDir: string;
@@ -109,6 +110,238 @@ describe("Java installations service", () => {
     );
   });
 
+  it("should detect Amazon Corretto installations", async () => {
+    const binPath = join(testDir, "amazon-corretto-17.0.11.9.1-linux-x64", "bin");
+    await fs.mkdir(binPath, { recursive: true });
+    await fs.writeFile(
+      join(binPath, env.isWindows() ? "java.exe" : "java"),
+      "fake java executable",
+    );
+
+    const installations = await scanJavaInstallations(testDir);
+    expect(installations.length).toBe(1);
+    expect(installations[0]?.featureVersion).toBe(17);
+    expect(installations[0]?.isValid).toBe(true);
+  });
+
+  it("should flag GraalVM homes and native-image support", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    const graalBin = join(testDir, "graalvm-community-openjdk-21.0.2+13.1", "bin");
+    await fs.mkdir(graalBin, { recursive: true });
+    await fs.writeFile(join(graalBin, exe), "fake java executable");
+    await fs.writeFile(
+      join(graalBin, env.isWindows() ? "native-image.cmd" : "native-image"),
+      "fake native-image",
+    );
+
+    const temurinBin = join(testDir, "jdk-17.0.2+8", "bin");
+    await fs.mkdir(temurinBin, { recursive: true });
+    await fs.writeFile(join(temurinBin, exe), "fake java executable");
+
+    const installations = await scanJavaInstallations(testDir);
+    const graal = installations.find((i) => i.featureVersion === 21);
+    const temurin = installations.find((i) => i.featureVersion === 17);
+
+    expect(graal?.isGraalVM).toBe(true);
+    expect(graal?.hasNativeImage).toBe(true);
+    expect(temurin?.isGraalVM).toBe(false);
+    expect(temurin?.hasNativeImage).toBe(false);
+  });
+
+  it("should flag GraalVM homes from the release file", async () => {
+    const home = join(testDir, "jdk-21.0.2");
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", env.isWindows() ? "java.exe" : "java"), "fake java executable");
+    await fs.writeFile(join(home, "release"), 'IMPLEMENTOR="GraalVM Community"\nJAVA_VERSION="21.0.2"\n');
+
+    const [installation] = await scanJavaInstallations(testDir);
+    expect(installation?.isGraalVM).toBe(true);
+    expect(installation?.hasNativeImage).toBe(false);
+  });
+
+  it("should prefer release file metadata over the folder name", async () => {
+    const home = join(testDir, "current");
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", env.isWindows() ? "java.exe" : "java"), "fake java executable");
+    await fs.writeFile(
+      join(home, "release"),
+      [
+        'IMPLEMENTOR="Eclipse Adoptium"',
+        'JAVA_RUNTIME_VERSION="21.0.3+9-LTS"',
+        'JAVA_VERSION="21.0.3"',
+        'MODULES="java.base java.logging jdk.compiler"',
+        'OS_ARCH="aarch64"',
+        'OS_NAME="Darwin"',
+      ].join("\n"),
+    );
+
+    const [installation] = await scanJavaInstallations(testDir);
+    expect(installation?.installPath).toBe(home);
+    expect(installation?.featureVersion).toBe(21);
+    expect(installation?.version).toMatchObject({ feature: 21, update: 3, build: 9 });
+    expect(installation?.arch).toBe("aarch64");
+    expect(installation?.os).toBe("macos");
+    expect(installation?.implementor).toBe("Eclipse Adoptium");
+    expect(installation?.modules).toEqual(["java.base", "java.logging", "jdk.compiler"]);
+    expect(installation?.imageType).toBe("jdk");
+  });
+
+  it("should detect homes without a version in their name from the release file", async () => {
+    const home = join(testDir, "temurin");
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(
+      join(home, "release"),
+      'JAVA_VERSION="1.8.0_392"\nOS_ARCH="amd64"\nOS_NAME="Linux"\nMODULES="java.base"\n',
+    );
+
+    const [installation] = await scanJavaInstallations(testDir);
+    expect(installation?.installPath).toBe(home);
+    expect(installation?.featureVersion).toBe(8);
+    expect(installation?.version.update).toBe(392);
+    expect(installation?.arch).toBe("x86_64");
+    expect(installation?.os).toBe("linux");
+    expect(installation?.isValid).toBe(false);
+    expect(installation?.imageType).toBe("jre");
+  });
+
+  it("should only take bare version folders for Java homes with Java files", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    await fs.mkdir(join(testDir, "21.0.3-tem", "bin"), { recursive: true });
+    await fs.writeFile(join(testDir, "21.0.3-tem", "bin", exe), "fake java executable");
+    await fs.mkdir(join(testDir, "17.0.11"), { recursive: true });
+    await fs.writeFile(join(testDir, "17.0.11", "release"), "");
+    // Maven and other tools use the same names
+    await fs.mkdir(join(testDir, "3.9.6", "bin"), { recursive: true });
+    await fs.writeFile(join(testDir, "3.9.6", "bin", "mvn"), "");
+    await fs.mkdir(join(testDir, "1.2"), { recursive: true });
+
+    const installations = await scanJavaInstallations(testDir);
+    expect(installations.map((i) => i.folderName)).toEqual(["21.0.3-tem", "17.0.11"]);
+    expect(installations[1]?.isValid).toBe(false);
+  });
+
+  it("should report macOS bundles from the bundle folder", async () => {
+    const bundle = join(testDir, "zulu.jdk");
+    const home = join(bundle, "Contents", "Home");
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", env.isWindows() ? "java.exe" : "java"), "fake java executable");
+    await fs.writeFile(join(home, "release"), 'JAVA_VERSION="17.0.11"\n');
+
+    const installations = await scanJavaInstallations(testDir);
+    expect(installations.length).toBe(1);
+    expect(installations[0]?.installPath).toBe(bundle);
+    expect(installations[0]?.featureVersion).toBe(17);
+  });
+
+  it.skipIf(env.isWindows())("should prefer the properties the binary reports in deep scans", async () => {
+    await writeFakeJava(join(testDir, "current", "bin"), {
+      "java.version": "17.0.11",
+      "java.runtime.version": "17.0.11+9",
+      "java.vendor": "Azul Systems, Inc.",
+      "os.arch": "aarch64",
+      "os.name": "Linux",
+    });
+    await fs.mkdir(join(testDir, "jdk-11.0.2", "bin"), { recursive: true });
+    await fs.writeFile(join(testDir, "jdk-11.0.2", "bin", "java"), "not a binary", { mode: 0o755 });
+
+    const installations = await scanJavaInstallations(testDir, { deep: true });
+    const current = installations.find((i) => i.folderName === "current");
+    expect(current?.featureVersion).toBe(17);
+    expect(current?.version).toMatchObject({ update: 11, build: 9 });
+    expect(current?.arch).toBe("aarch64");
+    expect(current?.os).toBe("linux");
+    expect(current?.implementor).toBe("Azul Systems, Inc.");
+    expect(current?.vendor).toBe("zulu");
+    expect(current?.runtime?.javaVersion).toBe("17.0.11+9");
+
+    const broken = installations.find((i) => i.folderName === "jdk-11.0.2");
+    expect(broken?.isValid).toBe(false);
+  });
+
+  it.skipIf(env.isWindows())("should keep the release file vendor in deep scans", async () => {
+    // Oracle GraalVM reports the same java.vendor as Oracle JDK
+    await writeFakeJava(join(testDir, "jdk-21.0.3", "bin"), {
+      "java.version": "21.0.3",
+      "java.vendor": "Oracle Corporation",
+    });
+    await fs.writeFile(
+      join(testDir, "jdk-21.0.3", "release"),
+      'JAVA_VERSION="21.0.3"\nIMPLEMENTOR="Oracle Corporation"\nGRAALVM_VERSION="23.1.3"\n',
+    );
+
+    const [installation] = await scanJavaInstallations(testDir, { deep: true });
+    expect(installation?.isGraalVM).toBe(true);
+    expect(installation?.vendor).toBe("graalvm");
+  });
+
+  it("should take arch and OS from the java executable header", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    // ELF header for x86_64, in a folder name that suggests ARM and Windows
+    const header = Buffer.alloc(64);
+    header.writeUInt32BE(0x7f454c46, 0);
+    header[4] = 2;
+    header[5] = 1;
+    header.writeUInt16LE(0x3e, 18);
+    await fs.mkdir(join(testDir, "jdk-17-armored-win", "bin"), { recursive: true });
+    await fs.writeFile(join(testDir, "jdk-17-armored-win", "bin", exe), header);
+
+    const [installation] = await scanJavaInstallations(testDir);
+    expect(installation?.arch).toBe("x86_64");
+    expect(installation?.os).toBe("linux");
+    expect(installation?.bits).toBe(64);
+
+    const found = await findJavaVersion(testDir, 17, { requireValid: false });
+    expect(found !== null).toBe(env.arch === "x86_64" && env.platform.name === "linux");
+  });
+
+  it("should match a universal macOS executable on any of its slices", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    // Universal header with x86_64 and arm64 slices
+    const header = Buffer.alloc(64);
+    header.writeUInt32BE(0xcafebabe, 0);
+    header.writeUInt32BE(2, 4);
+    header.writeUInt32BE(0x01000007, 8);
+    header.writeUInt32BE(0x0100000c, 28);
+    await fs.mkdir(join(testDir, "jdk-21.0.3+9", "bin"), { recursive: true });
+    await fs.writeFile(join(testDir, "jdk-21.0.3+9", "bin", exe), header);
+
+    const [installation] = await scanJavaInstallations(testDir);
+    expect(installation?.os).toBe("macos");
+    expect(installation?.architectures).toEqual(["x86_64", "aarch64"]);
+
+    const found = await findJavaVersion(testDir, 21, { requireValid: false, requireSameOS: false });
+    expect(found !== null).toBe(env.arch === "x86_64" || env.arch === "aarch64");
+  });
+
+  it.skipIf(env.isWindows())("should follow symlinks when asked, without looping", async () => {
+    const home = join(testDir, "real", "jdk-21.0.3+9");
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", "java"), "fake java executable");
+    await fs.symlink(home, join(testDir, "current"));
+    await fs.mkdir(join(testDir, "bin"), { recursive: true });
+    await fs.symlink(join(home, "bin", "java"), join(testDir, "bin", "java"));
+    await fs.symlink(testDir, join(testDir, "real", "loop"));
+    await fs.symlink(join(testDir, "missing"), join(testDir, "dangling"));
+
+    const plain = await scanJavaInstallations(testDir);
+    expect(plain.length).toBe(1);
+    expect(plain[0]?.aliases).toBeUndefined();
+
+    const followed = await scanJavaInstallations(testDir, { followSymlinks: true });
+    const realDir = await fs.realpath(testDir);
+    const realHome = await fs.realpath(home);
+    expect(followed.length).toBe(1);
+    expect(followed[0]?.installPath).toBe(realHome);
+    expect(followed[0]?.aliases?.sort()).toEqual([
+      join(realDir, "bin", "java"),
+      join(realDir, "current"),
+    ]);
+
+    const viaLink = await scanJavaInstallations(join(testDir, "current"), { followSymlinks: true });
+    expect(viaLink[0]?.installPath).toBe(realHome);
+    expect(viaLink[0]?.aliases).toEqual([join(testDir, "current")]);
+  });
+
   it("should handle complex Java directory structures", async () => {
     // Create a Java installation with a complex structure (like macOS)
     const jdkDir = join(testDir, "jdk-17.0.2+8");
@@ -184,6 +417,93 @@ describe("Java installations service", () => {
     }
   });
 
+  it("should parse the full version from folder names", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    for (const name of ["jdk-21.0.3+9", "jdk8u452-b09", "zulu17.48.15-ca-jdk17.0.10-linux_x64"]) {
+      await fs.mkdir(join(testDir, name, "bin"), { recursive: true });
+      await fs.writeFile(join(testDir, name, "bin", exe), "fake java executable");
+    }
+
+    const installations = await scanJavaInstallations(testDir);
+    const byFeature = (f: number) => installations.find((i) => i.featureVersion === f)?.version;
+    expect(byFeature(21)).toMatchObject({ feature: 21, update: 3, build: 9 });
+    expect(byFeature(8)).toMatchObject({ feature: 8, update: 452, build: 9 });
+    expect(byFeature(17)).toMatchObject({ feature: 17, update: 10 });
+  });
+
+  it("should find the best installation for a requirement", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    for (const name of ["jdk-17.0.2+8", "jdk-17.0.11+9", "jdk-21.0.3+9", "jdk-22.0.1+8"]) {
+      await fs.mkdir(join(testDir, name, "bin"), { recursive: true });
+      await fs.writeFile(join(testDir, name, "bin", exe), "fake java executable");
+    }
+
+    expect((await findJavaVersion(testDir, "17"))?.folderName).toBe("jdk-17.0.11+9");
+    expect((await findJavaVersion(testDir, ">=17"))?.folderName).toBe("jdk-21.0.3+9");
+    expect((await findJavaVersion(testDir, ">=17", { preferLts: false }))?.folderName).toBe("jdk-22.0.1+8");
+    expect((await findJavaVersion(testDir, "latest"))?.folderName).toBe("jdk-22.0.1+8");
+    expect((await findJavaVersion(testDir, "latest lts"))?.folderName).toBe("jdk-21.0.3+9");
+    expect((await findJavaVersion(testDir, "<17.0.5"))?.folderName).toBe("jdk-17.0.2+8");
+    expect(await findJavaVersion(testDir, "^11")).toBeNull();
+  });
+
+  it("should detect and rank vendors", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    const homes = {
+      "zulu21.34.19-ca-jdk21.0.3": "",
+      "amazon-corretto-17.0.11.9.1": "",
+      "jdk-21.0.2+13": 'IMPLEMENTOR="Eclipse Adoptium"\n',
+      "jdk-11.0.11+9_openj9-0.26.0": 'IMPLEMENTOR="AdoptOpenJDK"\nJVM_VARIANT="Openj9"\n',
+      "jdk-17.0.2": "",
+    };
+    for (const [name, release] of Object.entries(homes)) {
+      await fs.mkdir(join(testDir, name, "bin"), { recursive: true });
+      await fs.writeFile(join(testDir, name, "bin", exe), "fake java executable");
+      if (release) await fs.writeFile(join(testDir, name, "release"), release);
+    }
+
+    const installations = await scanJavaInstallations(testDir);
+    const vendorOf = (name: string) => installations.find((i) => i.folderName === name)?.vendor;
+    expect(vendorOf("zulu21.34.19-ca-jdk21.0.3")).toBe("zulu");
+    expect(vendorOf("amazon-corretto-17.0.11.9.1")).toBe("corretto");
+    expect(vendorOf("jdk-21.0.2+13")).toBe("temurin");
+    expect(vendorOf("jdk-11.0.11+9_openj9-0.26.0")).toBe("openj9");
+    expect(vendorOf("jdk-17.0.2")).toBeUndefined();
+
+    const newest = await findJavaVersion(testDir, ">=17");
+    expect(newest?.folderName).toBe("zulu21.34.19-ca-jdk21.0.3");
+    const corretto = await findJavaVersion(testDir, ">=17", { vendors: ["corretto"] });
+    expect(corretto?.folderName).toBe("amazon-corretto-17.0.11.9.1");
+    const preferred = await findJavaVersion(testDir, ">=17", { preferVendors: ["temurin", "zulu"] });
+    expect(preferred?.folderName).toBe("jdk-21.0.2+13");
+    expect(await findJavaVersion(testDir, 17, { vendors: ["liberica"] })).toBeNull();
+
+    const openj9 = await findJavaVersion(testDir, 11, { jvmImpl: "openj9" });
+    expect(openj9?.folderName).toBe("jdk-11.0.11+9_openj9-0.26.0");
+    expect(await findJavaVersion(testDir, 11, { jvmImpl: "hotspot" })).toBeNull();
+    expect(await findJavaVersion(testDir, 21, { jvmImpl: "openj9" })).toBeNull();
+  });
+
+  it("should tell JRE images from JDK images", async () => {
+    const exe = env.isWindows() ? "java.exe" : "java";
+    const jdkBin = join(testDir, "jdk-17.0.11+9", "bin");
+    const jreBin = join(testDir, "jdk-17.0.11+9-jre", "bin");
+    await fs.mkdir(jdkBin, { recursive: true });
+    await fs.mkdir(jreBin, { recursive: true });
+    await fs.writeFile(join(jdkBin, exe), "fake java executable");
+    await fs.writeFile(join(jdkBin, env.isWindows() ? "javac.exe" : "javac"), "fake javac");
+    await fs.writeFile(join(jreBin, exe), "fake java executable");
+
+    const installations = await scanJavaInstallations(testDir);
+    expect(installations.length).toBe(2);
+    expect(installations.every((i) => i.featureVersion === 17)).toBe(true);
+
+    const jre = await findJavaVersion(testDir, 17, { imageType: "jre" });
+    const jdk = await findJavaVersion(testDir, 17, { imageType: "jdk" });
+    expect(jre?.folderName).toBe("jdk-17.0.11+9-jre");
+    expect(jdk?.folderName).toBe("jdk-17.0.11+9");
+  });
+
   it("should find specific Java versions", async () => {
     // Create Java installations for different versions
     const versions = [8, 11, 17, 21];
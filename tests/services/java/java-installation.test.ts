@@ -285,6 +285,80 @@ describe("Java Installation Service", () => {
     });
   });
 
+  describe("ensureJava", () => {
+    afterEach(() => {
+      defaultPaths.reset();
+    });
+
+    it("should return an existing installation without running the pipeline", async () => {
+      const unpackPath = join(testDir, "unpacked");
+      const binPath = join(unpackPath, "jdk-17.0.2+8", "bin");
+      await fs.mkdir(binPath, { recursive: true });
+      await fs.writeFile(
+        join(binPath, env.isWindows() ? "java.exe" : "java"),
+        "fake java executable",
+      );
+      // javac marks the home as a JDK, which ensureJava looks for by default
+      await fs.writeFile(
+        join(binPath, env.isWindows() ? "javac.exe" : "javac"),
+        "fake javac executable",
+      );
+      defaultPaths.update({ unpackPath });
+
+      const stages: string[] = [];
+      const result = await JavaInfoService.ensureJava(17, {
+        onStage: (stage) => stages.push(stage),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.featureVersion).toBe(17);
+      expect(result.data.installPath).toBe(join(unpackPath, "jdk-17.0.2+8"));
+      expect(stages).toEqual([]);
+    });
+
+    it("should find a pinned GraalVM release by version and vendor", async () => {
+      const unpackPath = join(testDir, "unpacked");
+      // GraalVM CE archives unpack to a folder not named after the release
+      const home = join(unpackPath, "graalvm-community-openjdk-21.0.2+13.1");
+      await fs.mkdir(join(home, "bin"), { recursive: true });
+      await fs.writeFile(
+        join(home, "bin", env.isWindows() ? "java.exe" : "java"),
+        "fake java executable",
+      );
+      await fs.writeFile(
+        join(home, "release"),
+        'JAVA_VERSION="21.0.2"\nIMPLEMENTOR="GraalVM Community"\nGRAALVM_VERSION="23.1.2"\nMODULES="java.base jdk.compiler"\n',
+      );
+      defaultPaths.update({ unpackPath });
+
+      const release: JavaRelease = {
+        featureVersion: 21,
+        releaseName: "jdk-21.0.2",
+        downloadUrl: "https://example.test/graalvm-community-jdk-21.0.2_linux-x64_bin.tar.gz",
+        checksumUrl: "",
+        size: 1024,
+        arch: "x64",
+        os: "linux",
+        distribution: "graalvm-community",
+      };
+      const stages: string[] = [];
+      const result = await JavaInfoService.ensureJava(21, {
+        releaseName: "jdk-21.0.2",
+        provider: {
+          name: "fake-graalvm",
+          listFeatureVersions: async () => ({ available: [21], lts: [21] }),
+          listReleases: async () => [release],
+          resolveRelease: async () => release,
+        },
+        onStage: (stage) => stages.push(stage),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.installPath).toBe(home);
+      expect(stages).toEqual(["resolve"]);
+    });
+  });
+
   describe("Integration with TaskManager", () => {
     it("should create and wait for tasks", async () => {
       // Create a mock download task with a fake URL
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import {
+  JavaInfoService,
+  type JavaRelease,
+} from "../../../src/services/java.service.js";
+import type { JavaDistributionProvider } from "../../../src/services/providers/provider.js";
+import { defaultPaths } from "../../../src/config.js";
+
+// Builds of Java 21, newest first
+const RELEASES_21 = ["jdk-21.0.3+9", "jdk-21.0.2+13", "jdk-21.0.1+12"];
+
+function toRelease(releaseName: string): JavaRelease {
+  return {
+    featureVersion: 21,
+    releaseName,
+    downloadUrl: `https://example.test/${releaseName}.tar.gz`,
+    checksumUrl: "",
+    size: 1024,
+    arch: "x64",
+    os: "linux",
+  };
+}
+
+/** In-memory provider serving RELEASES_21; `history: false` drops the history listing. */
+function createFakeProvider(options: { history?: boolean } = {}) {
+  const calls: string[] = [];
+  const provider: JavaDistributionProvider = {
+    name: "fake",
+    async listFeatureVersions() {
+      return { available: [21], lts: [21] };
+    },
+    async listReleases(feature, query) {
+      const release = await provider.resolveRelease(feature, query);
+      return release ? [release] : [];
+    },
+    async resolveRelease(feature, query) {
+      calls.push(`resolveRelease ${feature} ${query.javaVersion ?? "latest"}`);
+      if (feature !== 21) return null;
+      const name = query.javaVersion
+        ? RELEASES_21.find((n) => n.startsWith(`jdk-${query.javaVersion}+`))
+        : RELEASES_21[0];
+      return name ? toRelease(name) : null;
+    },
+    ...(options.history !== false && {
+      async listReleaseHistory(feature, _query, page = {}) {
+        calls.push(`listReleaseHistory ${feature} ${page.page ?? 0}`);
+        const { page: index = 0, pageSize = 10 } = page;
+        return RELEASES_21.slice(index * pageSize, (index + 1) * pageSize).map(toRelease);
+      },
+    }),
+  };
+  return { provider, calls };
+}
+
+describe("Java requirement resolution", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-resolve-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    defaultPaths.update({ unpackPath: testDir });
+  });
+
+  afterEach(async () => {
+    defaultPaths.reset();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should resolve the latest build when it matches", async () => {
+    const { provider, calls } = createFakeProvider();
+    const result = await JavaInfoService.resolveJava(">=21", { provider });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ source: "remote", release: toRelease("jdk-21.0.3+9") });
+    expect(calls).toEqual(["resolveRelease 21 latest"]);
+  });
+
+  it("should pin the update version an exact requirement names", async () => {
+    const { provider, calls } = createFakeProvider({ history: false });
+    const result = await JavaInfoService.resolveJava("=21.0.2", { provider });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ source: "remote", release: toRelease("jdk-21.0.2+13") });
+    expect(calls).toEqual(["resolveRelease 21 latest", "resolveRelease 21 21.0.2"]);
+  });
+
+  it("should search the release history for older patches", async () => {
+    const { provider, calls } = createFakeProvider();
+    const result = await JavaInfoService.resolveJava(">=21 <21.0.3", { provider });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ source: "remote", release: toRelease("jdk-21.0.2+13") });
+    expect(calls).toEqual(["resolveRelease 21 latest", "listReleaseHistory 21 0"]);
+  });
+
+  it("should fail when no build meets the requirement", async () => {
+    const { provider } = createFakeProvider();
+    const result = await JavaInfoService.resolveJava("=21.0.0", { provider });
+    expect(result.success).toBe(false);
+
+    const withoutHistory = createFakeProvider({ history: false }).provider;
+    const older = await JavaInfoService.resolveJava("<21.0.3", { provider: withoutHistory });
+    expect(older.success).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import {
+  JavaInfoService,
+  type JavaRelease,
+} from "../../../src/services/java.service.js";
+import type { JavaDistributionProvider } from "../../../src/services/providers/provider.js";
+import { taskManager } from "../../../src/services/taskInstance.js";
+import { HttpStatusError } from "../../../src/utils/retry.js";
+import { defaultPaths } from "../../../src/config.js";
+
+const retry = { maxAttempts: 3, initialDelay: 1, jitter: 0 };
+
+/** Provider whose feature listing fails with `statuses` in turn before it answers. */
+function createFlakyProvider(statuses: number[]) {
+  const failures = [...statuses];
+  const provider: JavaDistributionProvider = {
+    name: "flaky",
+    async listFeatureVersions() {
+      const status = failures.shift();
+      if (status) throw new HttpStatusError(`HTTP ${status}`, status);
+      return { available: [21], lts: [21] };
+    },
+    async listReleases() {
+      return [];
+    },
+    async resolveRelease() {
+      return null;
+    },
+  };
+  return provider;
+}
+
+describe("Java request retries", () => {
+  let events: { name: string; task: any }[] = [];
+  let testDir: string;
+
+  beforeEach(async () => {
+    events = [];
+    testDir = join(tmpdir(), `java-retry-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    // Updating the paths recreates the task manager, so listen afterwards
+    defaultPaths.update({ unpackPath: join(testDir, "unpacked"), downloadPath: testDir });
+    for (const name of ["task:progress", "task:completed", "task:failed"] as const) {
+      taskManager.on(name, (task: any) => events.push({ name, task: { ...task } }));
+    }
+  });
+
+  afterEach(async () => {
+    defaultPaths.reset();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("version lookup", () => {
+    const versionEvents = () => events.filter((event) => event.task.type === "versions");
+
+    it("should report every attempt of a retried request", async () => {
+      const provider = createFlakyProvider([503]);
+      const result = await JavaInfoService.getInstallableVersions({ provider, retry });
+
+      expect(result.success).toBe(true);
+      expect(result.data.available).toEqual([21]);
+      const attempts = versionEvents()
+        .filter((event) => event.name === "task:progress")
+        .map((event) => event.task.details);
+      expect(attempts[0]).toMatchObject({ step: "listFeatureVersions", attempt: 1, maxAttempts: 3 });
+      expect(attempts[1]).toMatchObject({ step: "listFeatureVersions", attempt: 2, lastError: "HTTP 503" });
+      expect(versionEvents().at(-1)?.name).toBe("task:completed");
+    });
+
+    it("should report the attempts and the reason when the lookup fails", async () => {
+      const provider = createFlakyProvider([503, 502, 500]);
+      const result = await JavaInfoService.getInstallableVersions({ provider, retry });
+
+      expect(result.success).toBe(false);
+      const failed = versionEvents().at(-1);
+      expect(failed?.name).toBe("task:failed");
+      expect(failed?.task.error).toBe("HTTP 500");
+      expect(failed?.task.details).toMatchObject({ step: "listFeatureVersions", attempt: 3, lastError: "HTTP 502" });
+    });
+
+    it("should not retry a status the policy does not list", async () => {
+      const provider = createFlakyProvider([404]);
+      const result = await JavaInfoService.getInstallableVersions({ provider, retry });
+
+      expect(result.success).toBe(false);
+      expect(versionEvents().filter((event) => event.name === "task:progress").length).toBe(1);
+    });
+  });
+
+  describe("mirror fallback", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    const body = "fake jdk archive";
+    const requests: string[] = [];
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        fetch(req) {
+          const { pathname } = new URL(req.url);
+          requests.push(pathname);
+          if (pathname === "/busy") return new Response("busy", { status: 503 });
+          if (pathname === "/mirror") return new Response(body);
+          return new Response("not found", { status: 404 });
+        },
+      });
+    });
+
+    afterAll(() => {
+      server.stop(true);
+    });
+
+    beforeEach(() => {
+      requests.length = 0;
+    });
+
+    function toRelease(primary: string): JavaRelease {
+      return {
+        featureVersion: 21,
+        releaseName: "jdk-21.0.3+9",
+        downloadUrl: `http://localhost:${server.port}${primary}`,
+        mirrorUrls: [`http://localhost:${server.port}/mirror`],
+        checksumUrl: createHash("sha256").update(body).digest("hex"),
+        size: body.length,
+        arch: "x64",
+        os: "linux",
+      };
+    }
+
+    it("should fall back to a mirror once the primary URL gives up", async () => {
+      const operation = await JavaInfoService.downloadJavaReleaseResumable(
+        toRelease("/busy"),
+        "jdk-21.tar.gz",
+        undefined,
+        { retry },
+      );
+      const result = await operation.data.promise;
+
+      expect(result.filePath).toBe(join(testDir, "jdk-21.tar.gz"));
+      expect(await fs.readFile(result.filePath, "utf8")).toBe(body);
+      expect(requests).toEqual(["/busy", "/busy", "/busy", "/mirror"]);
+      const urls = events
+        .filter((event) => event.name === "task:progress" && event.task.id === operation.data.taskId)
+        .map((event) => event.task.details.url);
+      expect(urls).toContain(`http://localhost:${server.port}/mirror`);
+    });
+
+    it("should go to the mirror at once when the primary URL is missing", async () => {
+      const operation = await JavaInfoService.downloadJavaReleaseResumable(
+        toRelease("/missing"),
+        "jdk-21.tar.gz",
+        undefined,
+        { retry },
+      );
+      await operation.data.promise;
+
+      expect(requests).toEqual(["/missing", "/mirror"]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import {
+  JavaInfoService,
+  type JavaRelease,
+} from "../../../src/services/java.service.js";
+import type {
+  JavaDistributionProvider,
+  JavaReleaseQuery,
+} from "../../../src/services/providers/provider.js";
+import { defaultPaths } from "../../../src/config.js";
+import { env } from "../../../src/platforms/env.js";
+import { writeFakeJava } from "../../fixtures/fake-java.js";
+
+/** Writes a JDK home whose java binary answers `-XshowSettings` like the given version. */
+async function writeFakeJdk(home: string, version: string): Promise<void> {
+  await writeFakeJava(join(home, "bin"), {
+    "java.version": version,
+    "java.vendor": "Eclipse Adoptium",
+  });
+  await fs.writeFile(join(home, "bin", "javac"), "fake javac executable");
+  await fs.writeFile(
+    join(home, "release"),
+    `JAVA_VERSION="${version}"\nIMPLEMENTOR="Eclipse Adoptium"\n`,
+  );
+}
+
+// The fake java binaries are shell scripts
+describe.skipIf(env.isWindows())("Java updates", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let fixturesDir: string;
+  let archive: { size: number; sha256: string };
+  let testDir: string;
+  let unpackPath: string;
+
+  beforeAll(async () => {
+    // Archive of the newer patch, served like a vendor download
+    fixturesDir = join(tmpdir(), `java-updates-fixtures-${Date.now()}`);
+    await writeFakeJdk(join(fixturesDir, "jdk-21.0.3+9"), "21.0.3");
+    const archivePath = join(fixturesDir, "jdk-21.0.3+9.tar.gz");
+    await Bun.$`tar -czf ${archivePath} -C ${fixturesDir} jdk-21.0.3+9`.quiet();
+    const bytes = await fs.readFile(archivePath);
+    archive = { size: bytes.length, sha256: createHash("sha256").update(bytes).digest("hex") };
+
+    server = Bun.serve({
+      port: 0,
+      fetch() {
+        return new Response(Bun.file(archivePath));
+      },
+    });
+  });
+
+  afterAll(async () => {
+    server.stop(true);
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-updates-test-${Date.now()}`);
+    unpackPath = join(testDir, "unpacked");
+    await writeFakeJdk(join(unpackPath, "jdk-21.0.2+13"), "21.0.2");
+    defaultPaths.update({ unpackPath, downloadPath: join(testDir, "downloads") });
+  });
+
+  afterEach(async () => {
+    defaultPaths.reset();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  /** Provider whose latest Java 21 is `releaseName`; records the queries it is asked. */
+  function createFakeProvider(releaseName: string, checksum = archive.sha256) {
+    const queries: JavaReleaseQuery[] = [];
+    const release: JavaRelease = {
+      featureVersion: 21,
+      releaseName,
+      downloadUrl: `http://localhost:${server.port}/${releaseName}.tar.gz`,
+      checksumUrl: checksum,
+      size: archive.size,
+      arch: "x64",
+      os: "linux",
+      distribution: "temurin",
+    };
+    const provider: JavaDistributionProvider = {
+      name: "fake",
+      async listFeatureVersions() {
+        return { available: [21], lts: [21] };
+      },
+      async listReleases() {
+        return [release];
+      },
+      async resolveRelease(_feature, query) {
+        queries.push(query);
+        return release;
+      },
+    };
+    return { provider, queries };
+  }
+
+  it("should report a newer patch", async () => {
+    const { provider } = createFakeProvider("jdk-21.0.3+9");
+    const result = await JavaInfoService.checkForUpdates({ provider });
+
+    expect(result.success).toBe(true);
+    expect(result.data.length).toBe(1);
+    expect(result.data[0]?.installed.folderName).toBe("jdk-21.0.2+13");
+    expect(result.data[0]?.release.releaseName).toBe("jdk-21.0.3+9");
+    expect(result.data[0]?.updateAvailable).toBe(true);
+  });
+
+  it("should leave the latest patch in place", async () => {
+    const { provider } = createFakeProvider("jdk-21.0.2+13");
+    const updates = await JavaInfoService.checkForUpdates({ provider });
+    expect(updates.data[0]?.updateAvailable).toBe(false);
+
+    const stages: string[] = [];
+    const result = await JavaInfoService.upgrade(21, {
+      provider,
+      onStage: (stage) => stages.push(stage),
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.upgraded).toBe(false);
+    expect(result.data.installation.folderName).toBe("jdk-21.0.2+13");
+    expect(result.data.currentLink).toBe(join(unpackPath, "current-21"));
+    expect(stages).toEqual([]);
+  });
+
+  it("should install the release it found and remove the previous patch", async () => {
+    const { provider, queries } = createFakeProvider("jdk-21.0.3+9");
+    const stages: string[] = [];
+    const result = await JavaInfoService.upgrade(21, {
+      provider,
+      removePrevious: true,
+      onStage: (stage) => stages.push(stage),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.upgraded).toBe(true);
+    expect(result.data.previous.folderName).toBe("jdk-21.0.2+13");
+    expect(result.data.installation.folderName).toBe("jdk-21.0.3+9");
+    expect(result.data.removed?.removed.map((java) => java.folderName)).toEqual(["jdk-21.0.2+13"]);
+    expect(stages).toEqual(["resolve", "download", "verify", "extract", "validate"]);
+    // The release is resolved once and installed as found
+    expect(queries.length).toBe(1);
+    expect(queries[0]?.releaseName).toBeUndefined();
+
+    const names = await fs.readdir(unpackPath);
+    expect(names).toContain("jdk-21.0.3+9");
+    expect(names).not.toContain("jdk-21.0.2+13");
+    expect(await fs.realpath(join(unpackPath, "current-21"))).toBe(
+      await fs.realpath(join(unpackPath, "jdk-21.0.3+9")),
+    );
+  });
+
+  it("should verify the release it found against its checksum", async () => {
+    const { provider } = createFakeProvider("jdk-21.0.3+9", "0".repeat(64));
+    const result = await JavaInfoService.upgrade(21, { provider, removePrevious: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("File verification failed");
+    expect(await fs.readdir(unpackPath)).toEqual(["jdk-21.0.2+13"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import {
+  findProjectJavaRequirement,
+  readProjectJavaRequirement,
+} from "../../src/services/project.js";
+
+describe("Project Java requirement discovery", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-project-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function read(name: string, content: string) {
+    await fs.writeFile(join(testDir, name), content);
+    return readProjectJavaRequirement(testDir);
+  }
+
+  it("should read .java-version", async () => {
+    const found = await read(".java-version", "# pinned\ntemurin-17.0.2\n");
+    expect(found?.source).toBe("java-version");
+    expect(found?.value).toBe("temurin-17.0.2");
+    expect(found?.requirement.raw).toBe("17.0.2");
+    expect(found?.file).toBe(join(testDir, ".java-version"));
+  });
+
+  it("should read .sdkmanrc", async () => {
+    const found = await read(".sdkmanrc", "# Enable auto-env\njava=21.0.3-tem\nmaven=3.9.6\n");
+    expect(found?.source).toBe("sdkmanrc");
+    expect(found?.value).toBe("21.0.3-tem");
+    expect(found?.requirement.raw).toBe("21.0.3");
+  });
+
+  it("should read asdf .tool-versions", async () => {
+    const found = await read(".tool-versions", "nodejs 20.11.0\njava temurin-21.0.3+9.0.LTS openjdk-17\n");
+    expect(found?.source).toBe("tool-versions");
+    expect(found?.requirement.raw).toBe("21.0.3");
+  });
+
+  it("should read the Maven compiler release, resolving properties", async () => {
+    const found = await read(
+      "pom.xml",
+      `<project>
+  <properties>
+    <!-- <maven.compiler.release>11</maven.compiler.release> -->
+    <java.version>17</java.version>
+    <maven.compiler.release>\${java.version}</maven.compiler.release>
+  </properties>
+</project>`,
+    );
+    expect(found?.source).toBe("maven");
+    expect(found?.value).toBe("17");
+  });
+
+  it("should read Gradle toolchains", async () => {
+    const groovy = await read(
+      "build.gradle",
+      "java {\n  toolchain {\n    languageVersion = JavaLanguageVersion.of(17)\n  }\n}\n",
+    );
+    expect(groovy?.source).toBe("gradle");
+    expect(groovy?.value).toBe("17");
+
+    const kotlin = await read(
+      "build.gradle.kts",
+      'java {\n  toolchain {\n    // languageVersion.set(JavaLanguageVersion.of(11))\n    languageVersion.set(JavaLanguageVersion.of("21"))\n  }\n}\n',
+    );
+    expect(kotlin?.file).toBe(join(testDir, "build.gradle.kts"));
+    expect(kotlin?.value).toBe("21");
+  });
+
+  it("should skip files without a usable version", async () => {
+    await fs.writeFile(join(testDir, ".java-version"), "system\n");
+    await fs.writeFile(join(testDir, "pom.xml"), "<project></project>");
+    expect(await readProjectJavaRequirement(testDir)).toBeNull();
+  });
+
+  it("should walk up to the nearest declaring directory", async () => {
+    const nested = join(testDir, "app", "module", "src");
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(join(testDir, ".java-version"), "11\n");
+    await fs.writeFile(join(testDir, "app", ".sdkmanrc"), "java=21.0.3-tem\n");
+
+    const found = await findProjectJavaRequirement(nested, { stopAt: testDir });
+    expect(found?.source).toBe("sdkmanrc");
+    expect(found?.file).toBe(join(testDir, "app", ".sdkmanrc"));
+
+    const stopped = await findProjectJavaRequirement(nested, { stopAt: join(testDir, "app", "module") });
+    expect(stopped).toBeNull();
+  });
+});
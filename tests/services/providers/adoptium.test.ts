@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { createAdoptiumProvider } from "../../../src/services/providers/adoptium.js";
+
+function releaseRecord(releaseName: string, semver: string) {
+  return {
+    release_name: releaseName,
+    binaries: [
+      {
+        package: {
+          name: `${releaseName}.tar.gz`,
+          link: `https://example.com/${releaseName}.tar.gz`,
+          checksum: `sha-${releaseName}`,
+          size: 2048,
+        },
+      },
+    ],
+    version_data: { major: Number(semver.split(".")[0]), semver, openjdk_version: `${semver}-LTS` },
+  };
+}
+
+// 25 GA releases of Java 21, newest first
+const history = Array.from({ length: 25 }, (_, i) =>
+  releaseRecord(`jdk-21.0.${25 - i}+9`, `21.0.${25 - i}+9`),
+);
+
+describe("Adoptium provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    // Local stand-in for the Adoptium v3 API
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/v3/info/available_releases") {
+          return Response.json({
+            available_releases: [8, 11, 16, 17, 21, 22],
+            available_lts_releases: [8, 11, 17, 21],
+            most_recent_lts: 21,
+            most_recent_feature_release: 22,
+            tip_version: 24,
+          });
+        }
+        if (
+          url.pathname === "/v3/assets/latest/17/openj9" &&
+          url.searchParams.get("image_type") === "jre"
+        ) {
+          return Response.json([
+            {
+              release_name: "jdk-17.0.11+9",
+              binary: {
+                package: {
+                  name: "OpenJDK17U-jre_x64_linux_openj9_17.0.11_9.tar.gz",
+                  link: "https://example.com/OpenJDK17U-jre_x64_linux_openj9_17.0.11_9.tar.gz",
+                  checksum: "def456",
+                  size: 512,
+                },
+              },
+            },
+          ]);
+        }
+        if (decodeURIComponent(url.pathname) === "/v3/assets/release_name/eclipse/jdk-21.0.2+13") {
+          return Response.json(releaseRecord("jdk-21.0.2+13", "21.0.2+13"));
+        }
+        if (url.pathname === "/v3/assets/feature_releases/24/ea") {
+          return Response.json([releaseRecord("jdk-24+20-ea-beta", "24.0.0-beta+20")]);
+        }
+        if (url.pathname === "/v3/assets/feature_releases/21/ga") {
+          const page = Number(url.searchParams.get("page"));
+          const pageSize = Number(url.searchParams.get("page_size"));
+          return Response.json(history.slice(page * pageSize, (page + 1) * pageSize));
+        }
+        if (url.pathname === "/v3/assets/latest/21/hotspot") {
+          return Response.json([
+            {
+              release_name: "jdk-21.0.3+9",
+              binary: {
+                package: {
+                  name: "OpenJDK21U-jdk_x64_linux_hotspot_21.0.3_9.tar.gz",
+                  link: "https://example.com/OpenJDK21U-jdk_x64_linux_hotspot_21.0.3_9.tar.gz",
+                  checksum: "abc123",
+                  size: 1024,
+                },
+              },
+            },
+          ]);
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}/v3`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("should list feature versions", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const versions = await provider.listFeatureVersions();
+    expect(versions.available).toEqual([8, 11, 16, 17, 21, 22]);
+    // 16 comes before the newest LTS but is not one
+    expect(versions.lts).toEqual([8, 11, 17, 21]);
+    expect(versions.mostRecentFeatureRelease).toBe(22);
+    expect(versions.earlyAccess).toEqual([23, 24]);
+  });
+
+  it("should resolve early-access builds", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const query = { os: "linux", arch: "x64", releaseType: "ea" as const };
+
+    const release = await provider.resolveRelease(24, query);
+    expect(release?.releaseName).toBe("jdk-24+20-ea-beta");
+    expect(release?.releaseType).toBe("ea");
+    expect(provider.getBinaryUrl?.(24, query)).toBe(
+      `${baseUrl}/binary/latest/24/ea/linux/x64/jdk/hotspot/normal/eclipse?project=jdk`,
+    );
+  });
+
+  it("should resolve the latest release for a platform", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const release = await provider.resolveRelease(21, {
+      os: "linux",
+      arch: "x64",
+    });
+
+    expect(release).not.toBeNull();
+    expect(release?.featureVersion).toBe(21);
+    expect(release?.releaseName).toBe("jdk-21.0.3+9");
+    expect(release?.checksumUrl).toBe("abc123");
+    expect(release?.size).toBe(1024);
+    expect(release?.distribution).toBe("temurin");
+  });
+
+  it("should pass the image type and JVM implementation to the API", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const release = await provider.resolveRelease(17, {
+      os: "linux",
+      arch: "x64",
+      imageType: "jre",
+      jvmImpl: "openj9",
+    });
+
+    expect(release?.checksumUrl).toBe("def456");
+    expect(release?.imageType).toBe("jre");
+    expect(release?.jvmImpl).toBe("openj9");
+    expect(
+      provider.getBinaryUrl?.(17, {
+        os: "linux",
+        arch: "x64",
+        imageType: "jre",
+        jvmImpl: "openj9",
+      }),
+    ).toBe(`${baseUrl}/binary/latest/17/ga/linux/x64/jre/openj9/normal/eclipse?project=jdk`);
+  });
+
+  it("should resolve a pinned release name", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const release = await provider.resolveRelease(21, {
+      os: "linux",
+      arch: "x64",
+      releaseName: "jdk-21.0.2+13",
+    });
+    expect(release?.releaseName).toBe("jdk-21.0.2+13");
+    expect(release?.checksumUrl).toBe("sha-jdk-21.0.2+13");
+
+    const missing = await provider.resolveRelease(21, {
+      os: "linux",
+      arch: "x64",
+      releaseName: "jdk-21.0.99+1",
+    });
+    expect(missing).toBeNull();
+  });
+
+  it("should resolve a pinned update version across history pages", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const query = { os: "linux", arch: "x64" };
+
+    const release = await provider.resolveRelease(21, { ...query, javaVersion: "21.0.3" });
+    expect(release?.releaseName).toBe("jdk-21.0.3+9");
+
+    // "21.0.2" must not match "21.0.25"
+    const early = await provider.resolveRelease(21, { ...query, javaVersion: "21.0.2" });
+    expect(early?.releaseName).toBe("jdk-21.0.2+9");
+  });
+
+  it("should page through the release history", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const query = { os: "linux", arch: "x64" };
+
+    const first = await provider.listReleaseHistory!(21, query, { pageSize: 10 });
+    expect(first.length).toBe(10);
+    expect(first[0]?.releaseName).toBe("jdk-21.0.25+9");
+
+    const last = await provider.listReleaseHistory!(21, query, { page: 2, pageSize: 10 });
+    expect(last.map((r) => r.releaseName)).toEqual([
+      "jdk-21.0.5+9",
+      "jdk-21.0.4+9",
+      "jdk-21.0.3+9",
+      "jdk-21.0.2+9",
+      "jdk-21.0.1+9",
+    ]);
+  });
+
+  it("should return null when no binary exists for the platform", async () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const release = await provider.resolveRelease(9, {
+      os: "linux",
+      arch: "x64",
+    });
+    expect(release).toBeNull();
+  });
+
+  it("should build a direct binary URL", () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    const url = provider.getBinaryUrl?.(17, { os: "windows", arch: "x64" });
+    expect(url).toBe(
+      `${baseUrl}/binary/latest/17/ga/windows/x64/jdk/hotspot/normal/eclipse?project=jdk`,
+    );
+  });
+
+  it("should pass 32-bit architectures to the API", () => {
+    const provider = createAdoptiumProvider({ baseUrl });
+    expect(provider.getBinaryUrl?.(8, { os: "windows", arch: "x32" })).toContain("/windows/x32/");
+    expect(provider.getBinaryUrl?.(8, { os: "linux", arch: "arm" })).toContain("/linux/arm/");
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { createCorrettoProvider } from "../../../src/services/providers/corretto.js";
+
+const INDEX = {
+  linux: {
+    x64: {
+      jdk: {
+        "17": {
+          "tar.gz": {
+            resource: "/downloads/resources/17.0.11.9.1/amazon-corretto-17.0.11.9.1-linux-x64.tar.gz",
+            checksum: "md5-value",
+            checksum_sha256: "sha256-value",
+          },
+        },
+        "21": {
+          "tar.gz": {
+            resource: "/downloads/resources/21.0.3.9.1/amazon-corretto-21.0.3.9.1-linux-x64.tar.gz",
+            checksum: "md5-value",
+            checksum_sha256: "sha256-21",
+          },
+        },
+      },
+    },
+  },
+  windows: {
+    x64: {
+      jdk: {
+        "8": {
+          zip: {
+            resource: "/downloads/resources/8.412.08.1/amazon-corretto-8.412.08.1-windows-x64-jdk.zip",
+            checksum: "md5-value",
+            checksum_sha256: "sha256-8",
+          },
+        },
+      },
+    },
+  },
+};
+
+describe("Corretto provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    // Local stand-in for corretto.aws and the latest-links index
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/index.json") {
+          return Response.json(INDEX);
+        }
+        // Build 17.0.9.8.1 is not published
+        if (
+          req.method === "HEAD" &&
+          url.pathname.includes("/downloads/resources/") &&
+          !url.pathname.includes("/17.0.9.8.1/")
+        ) {
+          return new Response(null, { headers: { "content-length": "4096" } });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const createProvider = (pinned?: Record<number, string>) =>
+    createCorrettoProvider({
+      downloadsBaseUrl: `${baseUrl}/downloads`,
+      indexUrl: `${baseUrl}/index.json`,
+      pinned,
+    });
+
+  it("should resolve the latest build with checksum and size", async () => {
+    const release = await createProvider().resolveRelease(17, { os: "linux", arch: "x64" });
+
+    expect(release).not.toBeNull();
+    expect(release?.releaseName).toBe("amazon-corretto-17.0.11.9.1-linux-x64");
+    expect(release?.javaVersion).toBe("17.0.11+9");
+    expect(release?.downloadUrl).toBe(
+      `${baseUrl}/downloads/resources/17.0.11.9.1/amazon-corretto-17.0.11.9.1-linux-x64.tar.gz`,
+    );
+    expect(release?.checksumUrl).toBe("sha256-value");
+    expect(release?.size).toBe(4096);
+    expect(release?.os).toBe("linux");
+    expect(release?.arch).toBe("x64");
+    expect(release?.distribution).toBe("corretto");
+  });
+
+  it("should resolve a pinned build", async () => {
+    const release = await createProvider({ 17: "17.0.10.7.1" }).resolveRelease(17, {
+      os: "linux",
+      arch: "x64",
+    });
+
+    expect(release?.releaseName).toBe("amazon-corretto-17.0.10.7.1-linux-x64");
+    expect(release?.downloadUrl).toBe(
+      `${baseUrl}/downloads/resources/17.0.10.7.1/amazon-corretto-17.0.10.7.1-linux-x64.tar.gz`,
+    );
+    expect(release?.size).toBe(4096);
+  });
+
+  it("should keep the path of a mirror base URL", async () => {
+    const provider = createCorrettoProvider({
+      downloadsBaseUrl: `${baseUrl}/mirror/corretto/downloads/`,
+      indexUrl: `${baseUrl}/index.json`,
+    });
+    const release = await provider.resolveRelease(17, { os: "linux", arch: "x64" });
+    expect(release?.downloadUrl).toBe(
+      `${baseUrl}/mirror/corretto/downloads/resources/17.0.11.9.1/amazon-corretto-17.0.11.9.1-linux-x64.tar.gz`,
+    );
+  });
+
+  it("should name pinned Windows archives with their image type", async () => {
+    const release = await createProvider({ 8: "8.412.08.1" }).resolveRelease(8, {
+      os: "windows",
+      arch: "x64",
+    });
+    expect(release?.downloadUrl).toBe(
+      `${baseUrl}/downloads/resources/8.412.08.1/amazon-corretto-8.412.08.1-windows-x64-jdk.zip`,
+    );
+    expect(release?.javaVersion).toBe("8u412");
+  });
+
+  it("should return null for builds that are not published", async () => {
+    const provider = createProvider();
+    const release = await provider.resolveRelease(17, {
+      os: "linux",
+      arch: "x64",
+      javaVersion: "17.0.9.8.1",
+    });
+    expect(release).toBeNull();
+  });
+
+  it("should map update versions to the latest build of that update", async () => {
+    const provider = createProvider();
+    const latest = await provider.resolveRelease(17, {
+      os: "linux",
+      arch: "x64",
+      javaVersion: "17.0.11",
+    });
+    expect(latest?.releaseName).toBe("amazon-corretto-17.0.11.9.1-linux-x64");
+    expect(latest?.checksumUrl).toBe("sha256-value");
+
+    const older = await provider.resolveRelease(17, {
+      os: "linux",
+      arch: "x64",
+      javaVersion: "17.0.1",
+    });
+    expect(older).toBeNull();
+  });
+
+  it("should return null for versions missing from the index", async () => {
+    const release = await createProvider().resolveRelease(11, { os: "linux", arch: "x64" });
+    expect(release).toBeNull();
+  });
+
+  it("should list feature versions per platform and overall", async () => {
+    const provider = createProvider();
+    const linux = await provider.listFeatureVersions({ os: "linux", arch: "x64" });
+    expect(linux.available).toEqual([17, 21]);
+    expect(linux.lts).toEqual([17, 21]);
+
+    const all = await provider.listFeatureVersions();
+    expect(all.available).toEqual([8, 17, 21]);
+  });
+
+  it("should build permanent latest links", () => {
+    const url = createProvider().getBinaryUrl?.(21, { os: "mac", arch: "aarch64" });
+    expect(url).toBe(`${baseUrl}/downloads/latest/amazon-corretto-21-aarch64-macos-jdk.tar.gz`);
+  });
+
+  it("should map 32-bit architectures to Corretto names", () => {
+    expect(createProvider().getBinaryUrl?.(8, { os: "windows", arch: "x32" })).toBe(
+      `${baseUrl}/downloads/latest/amazon-corretto-8-x86-windows-jdk.zip`,
+    );
+    expect(createProvider().getBinaryUrl?.(8, { os: "linux", arch: "arm" })).toBe(
+      `${baseUrl}/downloads/latest/amazon-corretto-8-arm-linux-jdk.tar.gz`,
+    );
+  });
+});
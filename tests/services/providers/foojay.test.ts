@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { join } from "node:path";
+import { createFoojayProvider } from "../../../src/services/providers/foojay.js";
+
+const FIXTURES = join(import.meta.dir, "fixtures", "foojay");
+
+describe("foojay Disco provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(() => {
+    // Local stand-in for the Disco API, serving recorded responses
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        requests.push(url);
+        const route = url.pathname.replace("/disco/v3.0/", "");
+
+        if (route === "major_versions") {
+          return new Response(Bun.file(join(FIXTURES, "major_versions.json")));
+        }
+        if (route === "packages") {
+          // Apply the filters the recorded catalog response is keyed on
+          const { result } = await Bun.file(join(FIXTURES, "packages.json")).json();
+          const distributions = url.searchParams.getAll("distribution");
+          const archiveTypes = url.searchParams.getAll("archive_type");
+          const javafx = url.searchParams.get("javafx_bundled");
+          const latest = url.searchParams.has("latest");
+          return Response.json({
+            result: result.filter(
+              (p: any) =>
+                (!latest || p.latest_build_available) &&
+                (!distributions.length || distributions.includes(p.distribution)) &&
+                (!archiveTypes.length || archiveTypes.includes(p.archive_type)) &&
+                (javafx === null || String(p.javafx_bundled) === javafx),
+            ),
+            message: "",
+          });
+        }
+        const id = route.match(/^ids\/(\w+)$/)?.[1];
+        const file = Bun.file(join(FIXTURES, `ids-${id}.json`));
+        if (id && (await file.exists())) {
+          return new Response(file);
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}/disco/v3.0`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("should list major versions and LTS releases", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+    const versions = await provider.listFeatureVersions();
+    expect(versions.available).toEqual([8, 11, 17, 21, 23]);
+    expect(versions.lts).toEqual([8, 11, 17, 21]);
+  });
+
+  it("should list packages across distributions in one query", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+    const packages = await provider.listPackages({
+      version: 21,
+      query: { os: "linux", arch: "x64" },
+    });
+
+    expect(new Set(packages.map((p) => p.distribution))).toEqual(
+      new Set(["temurin", "zulu", "corretto", "liberica"]),
+    );
+
+    const last = requests[requests.length - 1]!;
+    expect(last.searchParams.get("operating_system")).toBe("linux");
+    expect(last.searchParams.get("architecture")).toBe("x64");
+    expect(last.searchParams.get("package_type")).toBe("jdk");
+    expect(last.searchParams.get("latest")).toBe("available");
+  });
+
+  it("should map 32-bit architectures to foojay names", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+    await provider.listPackages({ version: 8, query: { os: "windows", arch: "x32" } });
+    expect(requests[requests.length - 1]!.searchParams.get("architecture")).toBe("x86");
+    await provider.listPackages({ version: 8, query: { os: "linux", arch: "arm" } });
+    expect(requests[requests.length - 1]!.searchParams.get("architecture")).toBe("arm");
+  });
+
+  it("should filter by distribution, JavaFX and archive type", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+
+    const zuluFx = await provider.listPackages({
+      version: 21,
+      distributions: ["zulu"],
+      javafxBundled: true,
+    });
+    expect(zuluFx.map((p) => p.filename)).toEqual([
+      "zulu21.38.21-ca-fx-jdk21.0.5-linux_x64.tar.gz",
+    ]);
+
+    const zips = await provider.listPackages({ version: 21, archiveTypes: ["zip"] });
+    expect(zips.map((p) => p.distribution)).toEqual(["liberica"]);
+  });
+
+  it("should resolve a package to a release with its sha256", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+    const [pkg] = await provider.listPackages({ version: 21, distributions: ["temurin"] });
+    const release = await provider.resolvePackage(pkg!);
+
+    expect(release.featureVersion).toBe(21);
+    expect(release.releaseName).toBe("OpenJDK21U-jdk_x64_linux_hotspot_21.0.5_11");
+    expect(release.downloadUrl).toContain("temurin21-binaries");
+    expect(release.checksumUrl).toBe(
+      "3c654d98404c073b8a7e66bffb27f4ae3e7ede47d13284c132d40a83144bfd8c",
+    );
+    expect(release.size).toBe(206998223);
+    expect(release.distribution).toBe("temurin");
+    expect(release.os).toBe("linux");
+    expect(release.arch).toBe("x64");
+  });
+
+  it("should drop checksums that are not sha256", async () => {
+    const provider = createFoojayProvider({ baseUrl });
+    const [pkg] = await provider.listPackages({ version: 21, distributions: ["corretto"] });
+    const release = await provider.resolvePackage(pkg!);
+    expect(release.checksumUrl).toBe("");
+  });
+
+  it("should resolve the preferred distribution first", async () => {
+    const provider = createFoojayProvider({
+      baseUrl,
+      distributions: ["zulu", "temurin"],
+      javafxBundled: false,
+    });
+    const release = await provider.resolveRelease(21, { os: "linux", arch: "x64" });
+    expect(release?.distribution).toBe("zulu");
+    expect(release?.releaseName).toBe("zulu21.38.21-ca-jdk21.0.5-linux_x64");
+  });
+
+  it("should list release history newest first, then by distribution", async () => {
+    const provider = createFoojayProvider({
+      baseUrl,
+      distributions: ["zulu", "temurin"],
+      javafxBundled: false,
+    });
+    const history = await provider.listReleaseHistory!(21, { os: "linux", arch: "x64" });
+    expect(history.map((r) => r.releaseName)).toEqual([
+      "zulu21.38.21-ca-jdk21.0.5-linux_x64",
+      "OpenJDK21U-jdk_x64_linux_hotspot_21.0.5_11",
+      "zulu21.36.17-ca-jdk21.0.4-linux_x64",
+      "OpenJDK21U-jdk_x64_linux_hotspot_21.0.4_7",
+    ]);
+  });
+});
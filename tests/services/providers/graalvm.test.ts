@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { createGraalVMProvider } from "../../../src/services/providers/graalvm.js";
+
+describe("GraalVM CE provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  const asset = (tag: string, platform: string, size: number) => {
+    const name = `graalvm-community-${tag}_${platform}_bin.tar.gz`;
+    return [
+      { name, browser_download_url: `${baseUrl}/download/${name}`, size },
+      {
+        name: `${name}.sha256`,
+        browser_download_url: `${baseUrl}/download/${name}.sha256`,
+        size: 64,
+      },
+    ];
+  };
+
+  beforeAll(() => {
+    // Local stand-in for the GitHub releases API
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/releases") {
+          return Response.json([
+            { tag_name: "jdk-23-ea", draft: false, prerelease: true, assets: [] },
+            {
+              tag_name: "jdk-21.0.2",
+              draft: false,
+              prerelease: false,
+              assets: [...asset("jdk-21.0.2", "linux-x64", 300), ...asset("jdk-21.0.2", "macos-aarch64", 290)],
+            },
+            {
+              tag_name: "jdk-21.0.1",
+              draft: false,
+              prerelease: false,
+              assets: asset("jdk-21.0.1", "linux-x64", 299),
+            },
+            {
+              tag_name: "jdk-17.0.9",
+              draft: false,
+              prerelease: false,
+              assets: asset("jdk-17.0.9", "linux-x64", 250),
+            },
+            { tag_name: "vm-22.3.3", draft: false, prerelease: false, assets: [] },
+          ]);
+        }
+        if (url.pathname.endsWith(".sha256")) {
+          return new Response(`sha-${url.pathname.split("/").pop()}\n`);
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("should list GA feature versions from jdk tags", async () => {
+    const provider = createGraalVMProvider({ releasesUrl: `${baseUrl}/releases` });
+    const versions = await provider.listFeatureVersions();
+    expect(versions.available).toEqual([17, 21]);
+    expect(versions.lts).toEqual([17, 21]);
+  });
+
+  it("should resolve the newest release with its sha256", async () => {
+    const provider = createGraalVMProvider({ releasesUrl: `${baseUrl}/releases` });
+    const release = await provider.resolveRelease(21, { os: "linux", arch: "x64" });
+
+    expect(release?.releaseName).toBe("graalvm-community-jdk-21.0.2");
+    expect(release?.downloadUrl).toBe(
+      `${baseUrl}/download/graalvm-community-jdk-21.0.2_linux-x64_bin.tar.gz`,
+    );
+    expect(release?.checksumUrl).toBe("sha-graalvm-community-jdk-21.0.2_linux-x64_bin.tar.gz.sha256");
+    expect(release?.size).toBe(300);
+    expect(release?.distribution).toBe("graalvm-community");
+  });
+
+  it("should list every release of a feature version for a platform", async () => {
+    const provider = createGraalVMProvider({ releasesUrl: `${baseUrl}/releases` });
+    const releases = await provider.listReleases(21, { os: "linux", arch: "x64" });
+    expect(releases.map((r) => r.releaseName)).toEqual([
+      "graalvm-community-jdk-21.0.2",
+      "graalvm-community-jdk-21.0.1",
+    ]);
+
+    const mac = await provider.listReleases(21, { os: "mac", arch: "aarch64" });
+    expect(mac.length).toBe(1);
+  });
+
+  it("should reject platforms without GraalVM CE builds", async () => {
+    const provider = createGraalVMProvider({ releasesUrl: `${baseUrl}/releases` });
+    await expect(provider.resolveRelease(21, { os: "linux", arch: "arm" })).rejects.toThrow(
+      "Platform Unsupported by GraalVM CE",
+    );
+    await expect(provider.resolveRelease(21, { os: "windows", arch: "x32" })).rejects.toThrow(
+      "Platform Unsupported by GraalVM CE",
+    );
+  });
+
+  it("should reject images GraalVM CE does not publish", async () => {
+    const provider = createGraalVMProvider({ releasesUrl: `${baseUrl}/releases` });
+    await expect(
+      provider.resolveRelease(21, { os: "linux", arch: "x64", imageType: "jre" }),
+    ).rejects.toThrow("Image type Unsupported by GraalVM CE: jre");
+  });
+});
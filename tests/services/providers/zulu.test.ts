@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { createZuluProvider } from "../../../src/services/providers/zulu.js";
+
+const PACKAGES = [
+  {
+    package_uuid: "uuid-17-x64",
+    name: "zulu17.48.15-ca-jdk17.0.10-linux_x64.tar.gz",
+    java_version: [17, 0, 10],
+    download_url: "https://cdn.azul.com/zulu/bin/zulu17.48.15-ca-jdk17.0.10-linux_x64.tar.gz",
+  },
+  {
+    package_uuid: "uuid-8-arm",
+    name: "zulu8.76.0.17-ca-jdk8.0.402-linux_aarch32hf.tar.gz",
+    java_version: [8, 0, 402],
+    download_url: "https://cdn.azul.com/zulu-embedded/bin/zulu8.76.0.17-ca-jdk8.0.402-linux_aarch32hf.tar.gz",
+  },
+];
+
+describe("Zulu provider", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(() => {
+    // Local stand-in for the Azul metadata API
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        requests.push(url);
+        if (url.pathname === "/metadata/v1/zulu/packages/") {
+          const arch = url.searchParams.get("arch");
+          const version = url.searchParams.get("java_version");
+          const arches: Record<string, string> = {
+            "uuid-17-x64": "x64",
+            "uuid-8-arm": "aarch32hf",
+          };
+          return Response.json(
+            PACKAGES.filter(
+              (p) =>
+                arches[p.package_uuid] === arch &&
+                (!version || String(p.java_version[0]) === version),
+            ),
+          );
+        }
+        const match = url.pathname.match(/^\/metadata\/v1\/zulu\/packages\/(.+)$/);
+        const pkg = PACKAGES.find((p) => p.package_uuid === match?.[1]);
+        if (pkg) {
+          return Response.json({ ...pkg, sha256_hash: `sha-${pkg.package_uuid}`, size: 2048 });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}/metadata/v1`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("should map platform names to Azul parameters", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    await provider.resolveRelease(17, { os: "mac", arch: "aarch64" });
+
+    const last = requests[requests.length - 1]!;
+    expect(last.searchParams.get("os")).toBe("macos");
+    expect(last.searchParams.get("arch")).toBe("aarch64");
+    expect(last.searchParams.get("archive_type")).toBe("tar.gz");
+  });
+
+  it("should map 32-bit architectures to Azul parameters", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    for (const [arch, expected] of [["x32", "i686"], ["arm", "aarch32hf"]] as const) {
+      const first = requests.length;
+      await provider.resolveRelease(8, { os: "linux", arch });
+      expect(requests[first]!.searchParams.get("arch")).toBe(expected);
+    }
+  });
+
+  it("should resolve a release with checksum and size", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    const release = await provider.resolveRelease(17, { os: "linux", arch: "x64" });
+
+    expect(release).not.toBeNull();
+    expect(release?.featureVersion).toBe(17);
+    expect(release?.releaseName).toBe("zulu17.48.15-ca-jdk17.0.10-linux_x64");
+    expect(release?.checksumUrl).toBe("sha-uuid-17-x64");
+    expect(release?.size).toBe(2048);
+    expect(release?.distribution).toBe("zulu");
+  });
+
+  it("should resolve Java 8 for 32-bit ARM", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    const release = await provider.resolveRelease(8, { os: "linux", arch: "arm" });
+
+    expect(release?.featureVersion).toBe(8);
+    expect(release?.arch).toBe("arm");
+    expect(release?.downloadUrl).toContain("aarch32hf");
+  });
+
+  it("should list feature versions for a platform", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    const versions = await provider.listFeatureVersions({ os: "linux", arch: "arm" });
+    expect(versions.available).toEqual([8]);
+    expect(versions.lts).toEqual([8]);
+  });
+
+  it("should reject platforms Azul does not build for", async () => {
+    const provider = createZuluProvider({ baseUrl });
+    await expect(provider.resolveRelease(17, { os: "aix", arch: "x64" })).rejects.toThrow(
+      "Platform Unsupported by Zulu",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import {
+  cleanStaleStagingDirs,
+  commitStagedJava,
+  createStagingDir,
+  discardStagingDir,
+  validateStagedJava,
+} from "../../src/services/staging.js";
+import { scanJavaInstallations } from "../../src/services/installations.js";
+import { env } from "../../src/platforms/env.js";
+
+describe("Staged Java installs", () => {
+  let testDir: string;
+  const javaExe = env.isWindows() ? "java.exe" : "java";
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-staging-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeHome(home: string, options: { release?: boolean } = {}) {
+    await fs.mkdir(join(home, "bin"), { recursive: true });
+    await fs.writeFile(join(home, "bin", javaExe), "");
+    if (options.release !== false) {
+      await fs.writeFile(join(home, "release"), 'JAVA_VERSION="21.0.3"\n');
+    }
+  }
+
+  it("should stage into a hidden folder the scan ignores", async () => {
+    const stagingDir = await createStagingDir(testDir);
+    await writeHome(join(stagingDir, "jdk-21.0.3+9"));
+
+    expect(stagingDir.startsWith(join(testDir, `.staging-${process.pid}-`))).toBe(true);
+    expect(await scanJavaInstallations(testDir)).toEqual([]);
+  });
+
+  it("should reject folders without bin/java or a release file", async () => {
+    const stagingDir = await createStagingDir(testDir);
+    await writeHome(join(stagingDir, "jdk-21.0.3+9"), { release: false });
+    await expect(validateStagedJava(stagingDir)).rejects.toThrow("release file");
+
+    const empty = await createStagingDir(testDir);
+    await expect(validateStagedJava(empty)).rejects.toThrow("did not contain");
+  });
+
+  it("should accept macOS bundles", async () => {
+    const stagingDir = await createStagingDir(testDir);
+    await writeHome(join(stagingDir, "jdk-21.0.3+9", "Contents", "Home"));
+    expect(await validateStagedJava(stagingDir)).toEqual(["jdk-21.0.3+9"]);
+  });
+
+  it("should move the installation into place and remove the staging folder", async () => {
+    const stagingDir = await createStagingDir(testDir);
+    await writeHome(join(stagingDir, "jdk-21.0.3+9"));
+
+    const installed = await commitStagedJava(stagingDir, testDir);
+    expect(installed).toEqual([join(testDir, "jdk-21.0.3+9")]);
+    expect(await fs.readdir(testDir)).toEqual(["jdk-21.0.3+9"]);
+
+    const [java] = await scanJavaInstallations(testDir);
+    expect(java?.featureVersion).toBe(21);
+    expect(java?.isValid).toBe(true);
+  });
+
+  it("should replace an existing installation of the same name", async () => {
+    await writeHome(join(testDir, "jdk-21.0.3+9"));
+    await fs.writeFile(join(testDir, "jdk-21.0.3+9", "old"), "");
+
+    const stagingDir = await createStagingDir(testDir);
+    await writeHome(join(stagingDir, "jdk-21.0.3+9"));
+    await commitStagedJava(stagingDir, testDir);
+
+    expect(await fs.readdir(testDir)).toEqual(["jdk-21.0.3+9"]);
+    expect(await fs.readdir(join(testDir, "jdk-21.0.3+9"))).not.toContain("old");
+  });
+
+  it("should put back a replaced installation when a commit is discarded", async () => {
+    const stagingDir = await createStagingDir(testDir);
+    // What a crash between the two renames leaves behind
+    await writeHome(join(stagingDir, ".previous", "jdk-17.0.2+8"));
+    await writeHome(join(stagingDir, "jdk-17.0.2+8"));
+
+    await discardStagingDir(stagingDir, testDir);
+    expect(await fs.readdir(testDir)).toEqual(["jdk-17.0.2+8"]);
+  });
+
+  it("should only clean staging folders of processes that are gone", async () => {
+    const own = await createStagingDir(testDir);
+    // Far above any pid_max, so no process has it
+    const stale = join(testDir, ".staging-99999999-deadbeef");
+    await writeHome(join(stale, "jdk-21.0.3+9"));
+
+    expect(await cleanStaleStagingDirs(testDir)).toEqual([stale]);
+    expect(await fs.readdir(testDir)).toEqual([own.slice(testDir.length + 1)]);
+  });
+});
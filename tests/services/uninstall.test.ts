@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join, delimiter } from "node:path";
+import fs from "node:fs/promises";
+import {
+  pruneJavaInstallations,
+  uninstallJava,
+} from "../../src/services/uninstall.js";
+import { setCurrentJava } from "../../src/services/current.js";
+import { scanJavaInstallations } from "../../src/services/installations.js";
+import { env } from "../../src/platforms/env.js";
+
+describe("Uninstalling managed Java installations", () => {
+  let testDir: string;
+  let root: string;
+  const javaExe = env.isWindows() ? "java.exe" : "java";
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-uninstall-test-${Date.now()}`);
+    root = join(testDir, "unpacked");
+    await fs.mkdir(root, { recursive: true });
+    for (const name of ["jdk-17.0.2+8", "jdk-17.0.11+9", "jdk-21.0.3+9"]) {
+      await fs.mkdir(join(root, name, "bin"), { recursive: true });
+      await fs.writeFile(join(root, name, "bin", javaExe), "x".repeat(1000));
+      await fs.writeFile(join(root, name, "release"), "");
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should remove every installation matching a version", async () => {
+    const result = await uninstallJava(root, 17);
+    expect(result.removed.map((java) => java.folderName).sort()).toEqual([
+      "jdk-17.0.11+9",
+      "jdk-17.0.2+8",
+    ]);
+    expect(result.reclaimedSize).toBe(2000);
+    expect(result.reclaimedSizeFormatted).toBe("2.0 KB");
+    expect(await fs.readdir(root)).toEqual(["jdk-21.0.3+9"]);
+  });
+
+  it("should remove an installation by folder name or path", async () => {
+    await uninstallJava(root, "jdk-17.0.2+8");
+    await uninstallJava(root, join(root, "jdk-21.0.3+9"));
+    expect(await fs.readdir(root)).toEqual(["jdk-17.0.11+9"]);
+  });
+
+  it("should refuse paths outside the managed folder", async () => {
+    const outside = join(testDir, "jdk-11");
+    await fs.mkdir(join(outside, "bin"), { recursive: true });
+    await fs.writeFile(join(outside, "bin", javaExe), "");
+
+    await expect(uninstallJava(root, outside)).rejects.toThrow("Refusing to delete");
+    await expect(uninstallJava(root, "../jdk-11")).rejects.toThrow("Refusing to delete");
+    await expect(uninstallJava(root, root)).rejects.toThrow("Refusing to delete");
+    expect(await fs.readdir(outside)).toEqual(["bin"]);
+  });
+
+  it("should fail when nothing matches", async () => {
+    await expect(uninstallJava(root, 11)).rejects.toThrow("No Java matching");
+    await expect(uninstallJava(root, "jdk-22+1")).rejects.toThrow("No Java installation found");
+  });
+
+  it("should not read names as requirements", async () => {
+    await expect(uninstallJava(root, "jdk-21")).rejects.toThrow("No Java installation found");
+    await expect(uninstallJava(root, "jdk-17")).rejects.toThrow("No Java installation found");
+    expect((await fs.readdir(root)).length).toBe(3);
+
+    const result = await uninstallJava(root, ">=21");
+    expect(result.removed.map((java) => java.folderName)).toEqual(["jdk-21.0.3+9"]);
+  });
+
+  it("should refuse installations in use unless forced", async () => {
+    const environment = { JAVA_HOME: join(root, "jdk-17.0.2+8") };
+    await expect(uninstallJava(root, 17, { environment })).rejects.toThrow("Refusing to delete");
+    await expect(
+      uninstallJava(root, "jdk-17.0.2+8", { environment }),
+    ).rejects.toThrow("pass force");
+    expect((await fs.readdir(root)).length).toBe(3);
+
+    const linked = (await scanJavaInstallations(root)).find(
+      (java) => java.folderName === "jdk-17.0.11+9",
+    );
+    await setCurrentJava(root, linked!);
+    await expect(uninstallJava(root, "jdk-17.0.11+9", { environment: {} })).rejects.toThrow(
+      "Refusing to delete",
+    );
+
+    const result = await uninstallJava(root, 17, { environment, force: true });
+    expect(result.removed.length).toBe(2);
+  });
+
+  it("should prune all but the latest patch of each feature", async () => {
+    const result = await pruneJavaInstallations(root, { environment: {} });
+    expect(result.removed.map((java) => java.folderName)).toEqual(["jdk-17.0.2+8"]);
+    expect((await fs.readdir(root)).sort()).toEqual(["jdk-17.0.11+9", "jdk-21.0.3+9"]);
+  });
+
+  it("should keep installations in use", async () => {
+    const result = await pruneJavaInstallations(root, {
+      keepLatestPatchPerFeature: false,
+      olderThan: Date.now() + 60_000,
+      environment: {
+        JAVA_HOME: join(root, "jdk-17.0.2+8"),
+        PATH: [join(root, "jdk-21.0.3+9", "bin"), "/usr/bin"].join(delimiter),
+      },
+    });
+    expect(result.removed.map((java) => java.folderName)).toEqual(["jdk-17.0.11+9"]);
+  });
+
+  it("should keep installations a current link points to", async () => {
+    const oldest = (await scanJavaInstallations(root)).find(
+      (java) => java.folderName === "jdk-17.0.2+8",
+    );
+    await setCurrentJava(root, oldest!);
+
+    const result = await pruneJavaInstallations(root, { environment: {} });
+    expect(result.removed).toEqual([]);
+  });
+
+  it("should only prune installations older than the cutoff", async () => {
+    const result = await pruneJavaInstallations(root, {
+      olderThan: new Date(Date.now() - 60_000),
+      environment: {},
+    });
+    expect(result.removed).toEqual([]);
+    expect(result.reclaimedSizeFormatted).toBe("0 B");
+  });
+
+  it("should prune broken homes but not folders that only have a Java-like name", async () => {
+    await fs.mkdir(join(root, "jdk-11.0.2", "bin"), { recursive: true });
+    await fs.mkdir(join(root, "jdk-8"), { recursive: true });
+    const result = await pruneJavaInstallations(root, { environment: {} });
+    expect(result.removed.map((java) => java.folderName)).toEqual(["jdk-17.0.2+8", "jdk-11.0.2"]);
+    expect(await fs.readdir(root)).toContain("jdk-8");
+  });
+
+  it("should not prune everything without a criterion", async () => {
+    await expect(
+      pruneJavaInstallations(root, { keepLatestPatchPerFeature: false }),
+    ).rejects.toThrow("prune needs");
+  });
+});
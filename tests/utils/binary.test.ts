@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import { readBinaryInfo, normalizeOSName } from "../../src/utils/binary.js";
+import { env } from "../../src/platforms/env.js";
+
+/** ELF header with EI_CLASS, EI_DATA and e_machine set. */
+function elfHeader(machine: number, bits: 32 | 64 = 64): Buffer {
+  const header = Buffer.alloc(64);
+  header.writeUInt32BE(0x7f454c46, 0);
+  header[4] = bits === 64 ? 2 : 1;
+  header[5] = 1; // little-endian
+  header.writeUInt16LE(machine, 18);
+  return header;
+}
+
+function peHeader(machine: number): Buffer {
+  const header = Buffer.alloc(0x100);
+  header.write("MZ", 0, "latin1");
+  header.writeUInt32LE(0x80, 0x3c);
+  header.write("PE\0\0", 0x80, "latin1");
+  header.writeUInt16LE(machine, 0x84);
+  return header;
+}
+
+function machOHeader(cpuType: number): Buffer {
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0); // stored little-endian on disk
+  header.writeUInt32LE(cpuType, 4);
+  return header;
+}
+
+function universalHeader(cpuTypes: number[]): Buffer {
+  const header = Buffer.alloc(8 + cpuTypes.length * 20);
+  header.writeUInt32BE(0xcafebabe, 0);
+  header.writeUInt32BE(cpuTypes.length, 4);
+  cpuTypes.forEach((cpuType, i) => header.writeUInt32BE(cpuType, 8 + i * 20));
+  return header;
+}
+
+describe("Binary header utilities", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-binary-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function read(content: Buffer | string) {
+    const file = join(testDir, "java");
+    await fs.writeFile(file, content);
+    return readBinaryInfo(file);
+  }
+
+  it("should read ELF headers", async () => {
+    expect(await read(elfHeader(0x3e))).toEqual({ format: "elf", os: "linux", arch: "x86_64", bits: 64 });
+    expect(await read(elfHeader(0xb7))).toMatchObject({ arch: "aarch64", bits: 64 });
+    expect(await read(elfHeader(0x28, 32))).toMatchObject({ arch: "arm", bits: 32 });
+  });
+
+  it("should read PE headers", async () => {
+    expect(await read(peHeader(0x8664))).toEqual({ format: "pe", os: "windows", arch: "x86_64", bits: 64 });
+    expect(await read(peHeader(0x014c))).toMatchObject({ arch: "x86", bits: 32 });
+  });
+
+  it("should read Mach-O headers, including universal binaries", async () => {
+    expect(await read(machOHeader(0x0100000c))).toEqual({ format: "mach-o", os: "macos", arch: "aarch64", bits: 64 });
+    expect(await read(universalHeader([0x01000007, 0x0100000c]))).toMatchObject({
+      arch: "x86_64",
+      architectures: ["x86_64", "aarch64"],
+    });
+  });
+
+  it("should return null for other files", async () => {
+    expect(await read("#!/bin/sh\necho java\n")).toBeNull();
+    // Java class files share the universal binary magic
+    expect(await read(Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x41]))).toBeNull();
+    expect(await readBinaryInfo(join(testDir, "missing"))).toBeNull();
+  });
+
+  it("should read the running executable", async () => {
+    const info = await readBinaryInfo(process.execPath);
+    expect(info?.os).toBe(normalizeOSName(env.platform.name));
+    expect(info?.arch).toBe(env.arch);
+  });
+
+  it("should normalize OS names", () => {
+    expect(normalizeOSName("mac")).toBe("macos");
+    expect(normalizeOSName("Darwin")).toBe("macos");
+    expect(normalizeOSName("Windows 11")).toBe("windows");
+    expect(normalizeOSName("linux")).toBe("linux");
+  });
+});
@@ -8,8 +8,15 @@ import {
   runSync,
   detectJavaPathsSync,
   validateJavaPathSync,
+  parseJavaProperties,
+  parseJinfo,
+  parseJavaAlternatives,
 } from "../../src/utils/commands.js";
 import { env } from "../../src/platforms/env.js";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import { writeFakeJava } from "../fixtures/fake-java.js";
 
 describe("Command Utilities", () => {
   describe("Sync Methods", () => {
@@ -248,5 +255,165 @@ describe("Command Utilities", () => {
         }
       });
     });
+
+    describe("CommandUtils.probeJava", () => {
+      const fakeProperties = {
+        "java.version": "21.0.3",
+        "java.runtime.version": "21.0.3+9-LTS",
+        "java.vendor": "Eclipse Adoptium",
+        "java.home": "/opt/fake-jdk",
+        "os.arch": "amd64",
+        "os.name": "Linux",
+        "sun.arch.data.model": "64",
+      };
+
+      it("should parse property settings", () => {
+        const properties = parseJavaProperties(
+          "Property settings:\n    java.version = 17.0.2\n    java.class.path = \n    java.library.path = /usr/lib\n        /lib\n",
+        );
+        expect(properties["java.version"]).toBe("17.0.2");
+        expect(properties["java.class.path"]).toBe("");
+        expect(properties["java.library.path"]).toBe("/usr/lib");
+        expect(Object.keys(properties).length).toBe(3);
+      });
+
+      it.skipIf(env.isWindows())("should read the properties of a java binary", async () => {
+        const dir = join(tmpdir(), `java-probe-test-${Date.now()}`);
+        try {
+          const javaPath = await writeFakeJava(join(dir, "bin"), fakeProperties);
+          const result = await CommandUtils.probeJava(javaPath);
+          expect(result.success).toBe(true);
+          expect(result.data).toMatchObject({
+            javaVersion: "21.0.3+9-LTS",
+            vendor: "Eclipse Adoptium",
+            javaHome: "/opt/fake-jdk",
+            osArch: "amd64",
+            dataModel: 64,
+          });
+
+          expect((await CommandUtils.validateJavaPath(javaPath, { deep: true })).data).toBe(true);
+        } finally {
+          await fs.rm(dir, { recursive: true, force: true });
+        }
+      });
+
+      it.skipIf(env.isWindows())("should reuse probes until the binary changes", async () => {
+        const dir = join(tmpdir(), `java-probe-cache-test-${Date.now()}`);
+        const older = new Date(1_700_000_000_000);
+        const newer = new Date(1_700_000_100_000);
+        try {
+          const javaPath = await writeFakeJava(join(dir, "bin"), fakeProperties);
+          await fs.utimes(javaPath, older, older);
+          const first = await CommandUtils.probeJava(javaPath);
+
+          // Same mtime: the cached result is returned even though the script changed
+          await writeFakeJava(join(dir, "bin"), { ...fakeProperties, "java.runtime.version": "22+36" });
+          await fs.utimes(javaPath, older, older);
+          expect((await CommandUtils.probeJava(javaPath)).data).toEqual(first.data);
+
+          await fs.utimes(javaPath, newer, newer);
+          expect((await CommandUtils.probeJava(javaPath)).data?.javaVersion).toBe("22+36");
+        } finally {
+          await fs.rm(dir, { recursive: true, force: true });
+        }
+      });
+
+      it.skipIf(env.isWindows())("should fail deep validation for binaries that are not Java", async () => {
+        const result = await CommandUtils.validateJavaPath("/bin/true", { deep: true });
+        expect(result.data).toBe(false);
+      });
+    });
+
+    describe("CommandUtils.getJavaAlternatives", () => {
+      const jinfo = (name: string, priority: number) => `name=${name}
+alias=${name.replace("1.", "").replace(".0-", "-")}
+priority=${priority}
+section=main
+
+hl java /usr/lib/jvm/${name}/bin/java
+jre keytool /usr/lib/jvm/${name}/bin/keytool
+jdk javac /usr/lib/jvm/${name}/bin/javac
+`;
+
+      it("should parse .jinfo files", () => {
+        const parsed = parseJinfo(jinfo("java-1.17.0-openjdk-amd64", 1711));
+        expect(parsed).toMatchObject({
+          name: "java-1.17.0-openjdk-amd64",
+          alias: "java-17-openjdk-amd64",
+          priority: 1711,
+          section: "main",
+          javaPath: "/usr/lib/jvm/java-1.17.0-openjdk-amd64/bin/java",
+        });
+        expect(parsed.tools.length).toBe(3);
+      });
+
+      it("should parse update-alternatives --query output", () => {
+        const parsed = parseJavaAlternatives(`Name: java
+Link: /usr/bin/java
+Slaves:
+ java.1.gz /usr/share/man/man1/java.1.gz
+Status: manual
+Best: /usr/lib/jvm/java-21-openjdk-amd64/bin/java
+Value: /usr/lib/jvm/java-17-openjdk-amd64/bin/java
+
+Alternative: /usr/lib/jvm/java-17-openjdk-amd64/bin/java
+Priority: 1711
+Slaves:
+ java.1.gz /usr/lib/jvm/java-17-openjdk-amd64/man/man1/java.1.gz
+
+Alternative: /usr/lib/jvm/java-21-openjdk-amd64/bin/java
+Priority: 2111
+`);
+        expect(parsed).toEqual({
+          mode: "manual",
+          selected: "/usr/lib/jvm/java-17-openjdk-amd64/bin/java",
+          alternatives: [
+            { javaPath: "/usr/lib/jvm/java-17-openjdk-amd64/bin/java", priority: 1711 },
+            { javaPath: "/usr/lib/jvm/java-21-openjdk-amd64/bin/java", priority: 2111 },
+          ],
+        });
+      });
+
+      it("should parse alternatives --display output", () => {
+        const parsed = parseJavaAlternatives(`java - status is auto.
+ link currently points to /usr/lib/jvm/java-21-openjdk-21.0.3.0.9-1.fc40.x86_64/bin/java
+/usr/lib/jvm/java-21-openjdk-21.0.3.0.9-1.fc40.x86_64/bin/java - family java-21-openjdk.x86_64 priority 21000309
+ follower jre: /usr/lib/jvm/java-21-openjdk-21.0.3.0.9-1.fc40.x86_64
+/usr/lib/jvm/java-17-openjdk-17.0.11.0.9-2.fc40.x86_64/bin/java - family java-17-openjdk.x86_64 priority 17001109
+Current \`best' version is /usr/lib/jvm/java-21-openjdk-21.0.3.0.9-1.fc40.x86_64/bin/java.
+`);
+        expect(parsed.mode).toBe("auto");
+        expect(parsed.selected).toBe("/usr/lib/jvm/java-21-openjdk-21.0.3.0.9-1.fc40.x86_64/bin/java");
+        expect(parsed.alternatives.map((a) => a.priority)).toEqual([21000309, 17001109]);
+      });
+
+      it.skipIf(env.isWindows())("should merge .jinfo files and mark the selected JDK", async () => {
+        const dir = join(tmpdir(), `java-alternatives-test-${Date.now()}`);
+        try {
+          const jvmDir = join(dir, "jvm");
+          await fs.mkdir(jvmDir, { recursive: true });
+          await fs.writeFile(join(jvmDir, ".java-1.17.0-openjdk-amd64.jinfo"), jinfo("java-1.17.0-openjdk-amd64", 1711));
+          await fs.writeFile(join(jvmDir, ".java-1.21.0-openjdk-amd64.jinfo"), jinfo("java-1.21.0-openjdk-amd64", 2111));
+          const selected = await writeFakeJava(join(dir, "selected", "bin"), {});
+          await fs.symlink(selected, join(dir, "java"));
+          await fs.writeFile(join(jvmDir, ".fake.jinfo"), `name=fake\npriority=1\n\nhl java ${selected}\n`);
+
+          const result = await CommandUtils.getJavaAlternatives({
+            jvmDir,
+            alternativesLink: join(dir, "java"),
+            query: false,
+          });
+          expect(result.success).toBe(true);
+          expect(result.data.selected).toBe(selected);
+          expect(result.data.alternatives.map((a) => [a.jinfo, a.priority, a.selected])).toEqual([
+            ["java-1.21.0-openjdk-amd64", 2111, false],
+            ["java-1.17.0-openjdk-amd64", 1711, false],
+            ["fake", 1, true],
+          ]);
+        } finally {
+          await fs.rm(dir, { recursive: true, force: true });
+        }
+      });
+    });
   });
 });
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { downloadFile } from "../../src/utils/download.js";
+import { withRetry } from "../../src/utils/retry.js";
+
+const CONTENT = Buffer.from("0123456789".repeat(1000));
+
+interface ServerOptions {
+  /** Bytes sent before the first response is cut off. */
+  dropAfter?: number;
+  /** Answer every request with the whole file. */
+  ignoreRanges?: boolean;
+  etag?: string;
+}
+
+/** Serves CONTENT, honouring `Range` and `If-Range` like a CDN. */
+function startServer(options: ServerOptions = {}) {
+  const requests: Array<{ range?: string; ifRange?: string }> = [];
+  let dropped = false;
+  const server = http.createServer((req, res) => {
+    const range = req.headers.range;
+    const ifRange = req.headers["if-range"] as string | undefined;
+    requests.push({ range, ifRange });
+
+    const etag = options.etag ?? '"v1"';
+    const match = range?.match(/^bytes=(\d+)-$/);
+    const start =
+      match && !options.ignoreRanges && (!ifRange || ifRange === etag) ? Number(match[1]) : 0;
+    const body = CONTENT.subarray(start);
+    res.setHeader("ETag", etag);
+    res.setHeader("Content-Length", body.length);
+    if (start > 0) {
+      res.statusCode = 206;
+      res.setHeader("Content-Range", `bytes ${start}-${CONTENT.length - 1}/${CONTENT.length}`);
+    }
+
+    if (options.dropAfter !== undefined && !dropped) {
+      dropped = true;
+      res.flushHeaders();
+      res.write(body.subarray(0, options.dropAfter), () => {
+        setTimeout(() => res.socket?.destroy(), 20);
+      });
+      return;
+    }
+    res.end(body);
+  });
+
+  return new Promise<{ url: string; requests: typeof requests; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+          url: `http://127.0.0.1:${port}/jdk.tar.gz`,
+          requests,
+          close: () => new Promise((done) => server.close(() => done())),
+        });
+      });
+    },
+  );
+}
+
+describe("Resumable downloads", () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `java-download-test-${Date.now()}`);
+    filePath = join(testDir, "jdk.tar.gz");
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should download a file and remove the partial files", async () => {
+    const server = await startServer();
+    try {
+      const progress: number[] = [];
+      const result = await downloadFile(server.url, filePath, {
+        onProgress: ({ downloaded }) => progress.push(downloaded),
+      });
+      expect(result).toEqual({ filePath, size: CONTENT.length, resumedFrom: 0 });
+      expect(progress.at(-1)).toBe(CONTENT.length);
+      expect(await fs.readdir(testDir)).toEqual(["jdk.tar.gz"]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should resume with a Range request after the connection drops", async () => {
+    const server = await startServer({ dropAfter: 4000 });
+    try {
+      await expect(downloadFile(server.url, filePath)).rejects.toThrow();
+      expect((await fs.stat(`${filePath}.part`)).size).toBe(4000);
+      const meta = JSON.parse(await fs.readFile(`${filePath}.part.json`, "utf8"));
+      expect(meta).toEqual({ url: server.url, etag: '"v1"', size: CONTENT.length });
+
+      const result = await downloadFile(server.url, filePath);
+      expect(result.resumedFrom).toBe(4000);
+      expect(server.requests[1]).toEqual({ range: "bytes=4000-", ifRange: '"v1"' });
+      expect((await fs.readFile(filePath)).equals(CONTENT)).toBe(true);
+      expect(await fs.readdir(testDir)).toEqual(["jdk.tar.gz"]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should resume within one call when retried", async () => {
+    const server = await startServer({ dropAfter: 4000 });
+    try {
+      const result = await withRetry(() => downloadFile(server.url, filePath), {
+        maxAttempts: 2,
+        initialDelay: 1,
+      });
+      expect(result.resumedFrom).toBe(4000);
+      expect((await fs.readFile(filePath)).equals(CONTENT)).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should download everything again when the server ignores ranges", async () => {
+    const server = await startServer({ dropAfter: 4000, ignoreRanges: true });
+    try {
+      await expect(downloadFile(server.url, filePath)).rejects.toThrow();
+      const result = await downloadFile(server.url, filePath);
+      expect(result.resumedFrom).toBe(0);
+      expect((await fs.readFile(filePath)).equals(CONTENT)).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should not resume a part recorded for another URL or size", async () => {
+    await fs.writeFile(`${filePath}.part`, "garbage");
+    await fs.writeFile(
+      `${filePath}.part.json`,
+      JSON.stringify({ url: "http://example.com/other.tar.gz", size: 7 }),
+    );
+    const server = await startServer();
+    try {
+      const result = await downloadFile(server.url, filePath, { expectedSize: CONTENT.length });
+      expect(result.resumedFrom).toBe(0);
+      expect(server.requests[0]?.range).toBeUndefined();
+      expect((await fs.readFile(filePath)).equals(CONTENT)).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should fail on HTTP errors", async () => {
+    const server = http.createServer((_, res) => {
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      await expect(
+        downloadFile(`http://127.0.0.1:${port}/missing`, filePath),
+      ).rejects.toThrow("404");
+    } finally {
+      await new Promise((done) => server.close(done));
+    }
+  });
+});
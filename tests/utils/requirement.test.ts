@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import {
+  parseJavaRequirement,
+  satisfiesJavaRequirement,
+  featureMatchesJavaRequirement,
+  sortByJavaPreference,
+} from "../../src/utils/requirement.js";
+import { parseJavaVersion } from "../../src/utils/version.js";
+
+const versions = ["1.8.0_392", "11.0.22+7", "17.0.2+8", "17.0.11+9", "21.0.3+9", "22.0.1+8"];
+
+function matching(requirement: string): string[] {
+  const parsed = parseJavaRequirement(requirement);
+  return versions.filter((v) => satisfiesJavaRequirement(parseJavaVersion(v)!, parsed));
+}
+
+describe("Java requirement utilities", () => {
+  it("should match feature versions and exact updates", () => {
+    expect(matching("17")).toEqual(["17.0.2+8", "17.0.11+9"]);
+    expect(matching("17.0.11")).toEqual(["17.0.11+9"]);
+    expect(matching("1.8")).toEqual(["1.8.0_392"]);
+  });
+
+  it("should match ranges, caret, tilde and plus forms", () => {
+    expect(matching(">=17 <22")).toEqual(["17.0.2+8", "17.0.11+9", "21.0.3+9"]);
+    expect(matching("any >= 11")).toEqual(["11.0.22+7", "17.0.2+8", "17.0.11+9", "21.0.3+9", "22.0.1+8"]);
+    expect(matching("^21")).toEqual(["21.0.3+9"]);
+    expect(matching("~17.0.5")).toEqual(["17.0.11+9"]);
+    expect(matching("21+")).toEqual(["21.0.3+9", "22.0.1+8"]);
+    expect(matching("11 || 21")).toEqual(["11.0.22+7", "21.0.3+9"]);
+  });
+
+  it("should restrict to LTS versions", () => {
+    expect(matching("latest lts")).toEqual(["1.8.0_392", "11.0.22+7", "17.0.2+8", "17.0.11+9", "21.0.3+9"]);
+    expect(matching("lts >=17")).toEqual(["17.0.2+8", "17.0.11+9", "21.0.3+9"]);
+  });
+
+  it("should flag latest so LTS versions are not preferred", () => {
+    expect(matching("latest")).toEqual(versions);
+    expect(parseJavaRequirement("latest").latest).toBe(true);
+    expect(parseJavaRequirement("latest lts")).toMatchObject({ latest: true, lts: true });
+    expect(parseJavaRequirement(">=17").latest).toBe(false);
+  });
+
+  it("should reject invalid requirements", () => {
+    expect(() => parseJavaRequirement("java please")).toThrow("Invalid Java requirement");
+    expect(() => parseJavaRequirement("")).toThrow("Invalid Java requirement");
+    expect(() => parseJavaRequirement("21.0.3-tem")).toThrow("Invalid Java requirement");
+  });
+
+  it("should tell which feature versions may match", () => {
+    const requirement = parseJavaRequirement(">17.0.2 <22");
+    expect([11, 17, 21, 22].filter((f) => featureMatchesJavaRequirement(f, requirement))).toEqual([17, 21]);
+  });
+
+  it("should prefer LTS versions, then the newest patch", () => {
+    const parsed = versions.map((v) => parseJavaVersion(v)!);
+    const preferred = sortByJavaPreference(parsed, (v) => v).map((v) => v.raw);
+    expect(preferred.slice(0, 3)).toEqual(["21.0.3+9", "17.0.11+9", "17.0.2+8"]);
+    expect(preferred[preferred.length - 1]).toBe("22.0.1+8");
+
+    const newest = sortByJavaPreference(parsed, (v) => v, { preferLts: false });
+    expect(newest[0]?.raw).toBe("22.0.1+8");
+  });
+});
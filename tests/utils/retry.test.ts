@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import {
+  HttpStatusError,
+  getRetryDelay,
+  isRetryableError,
+  withRetry,
+  type RetryAttempt,
+} from "../../src/utils/retry.js";
+
+describe("Retry policy", () => {
+  it("should classify errors", () => {
+    expect(isRetryableError(new HttpStatusError("busy", 503))).toBe(true);
+    expect(isRetryableError(new HttpStatusError("missing", 404))).toBe(false);
+    expect(isRetryableError(new HttpStatusError("missing", 404), [404])).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryableError(new Error("Image type Unsupported"))).toBe(false);
+    expect(isRetryableError(new DOMException("aborted", "AbortError"))).toBe(false);
+  });
+
+  it("should back off exponentially up to the maximum delay", () => {
+    const policy = { initialDelay: 100, backoffFactor: 3, maxDelay: 1000, jitter: 0 };
+    expect([1, 2, 3, 4].map((retry) => getRetryDelay(retry, policy))).toEqual([
+      100, 300, 900, 1000,
+    ]);
+  });
+
+  it("should keep jittered delays within range", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = getRetryDelay(1, { initialDelay: 1000, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(500);
+      expect(delay).toBeLessThanOrEqual(1500);
+    }
+  });
+
+  it("should retry retryable failures and report every attempt", async () => {
+    const attempts: RetryAttempt[] = [];
+    const result = await withRetry(
+      async (attempt) => {
+        if (attempt < 3) throw new HttpStatusError("busy", 503);
+        return "done";
+      },
+      { maxAttempts: 5, initialDelay: 1, jitter: 0 },
+      (attempt) => attempts.push(attempt),
+    );
+    expect(result).toBe("done");
+    expect(attempts.map((a) => a.attempt)).toEqual([1, 2, 3]);
+    expect(attempts[1]?.lastError).toBeInstanceOf(HttpStatusError);
+    expect(attempts[2]?.delay).toBe(2);
+  });
+
+  it("should give up after the last attempt or on errors that are not retryable", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls++;
+        throw new TypeError("fetch failed");
+      }, { maxAttempts: 2, initialDelay: 1 }),
+    ).rejects.toThrow("fetch failed");
+    expect(calls).toBe(2);
+
+    calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls++;
+        throw new HttpStatusError("missing", 404);
+      }, { maxAttempts: 5, initialDelay: 1 }),
+    ).rejects.toThrow("missing");
+    expect(calls).toBe(1);
+  });
+});
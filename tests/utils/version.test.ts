@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import {
+  parseJavaVersion,
+  formatJavaVersion,
+  compareJavaVersions,
+} from "../../src/utils/version.js";
+
+describe("Java version utilities", () => {
+  it("should parse legacy 1.x versions", () => {
+    const version = parseJavaVersion("1.8.0_392-b08");
+    expect(version).toMatchObject({ feature: 8, update: 392, build: 8 });
+    expect(parseJavaVersion("1.8.0-ea-b12")).toMatchObject({ feature: 8, pre: "ea", build: 12 });
+  });
+
+  it("should parse the 8uNNN shorthand", () => {
+    expect(parseJavaVersion("8u452")).toMatchObject({ feature: 8, update: 452 });
+    expect(parseJavaVersion("jdk8u452-b09")).toMatchObject({ feature: 8, update: 452, build: 9 });
+  });
+
+  it("should parse JEP 223 versions with pre-release tags and vendor suffixes", () => {
+    expect(parseJavaVersion("21.0.3+9")).toMatchObject({ feature: 21, interim: 0, update: 3, build: 9 });
+    expect(parseJavaVersion("17.0.11-ea")).toMatchObject({ feature: 17, update: 11, pre: "ea" });
+    expect(parseJavaVersion("21-ea+20")).toMatchObject({ feature: 21, pre: "ea", build: 20 });
+    expect(parseJavaVersion("17.0.2+8-LTS")).toMatchObject({ build: 8, vendor: "LTS" });
+    expect(parseJavaVersion("jdk-21.0.3+9")?.raw).toBe("jdk-21.0.3+9");
+  });
+
+  it("should keep SDKMAN vendor suffixes apart from pre-release tags", () => {
+    expect(parseJavaVersion("21.0.3-tem")).toMatchObject({ feature: 21, update: 3, vendor: "tem" });
+    expect(parseJavaVersion("21.0.3-tem")?.pre).toBeUndefined();
+    expect(parseJavaVersion("11.0.22-zulu")).toMatchObject({ feature: 11, update: 22, vendor: "zulu" });
+    expect(parseJavaVersion("22.0.1-graalce")).toMatchObject({ feature: 22, update: 1, vendor: "graalce" });
+    expect(parseJavaVersion("17.0.11-rc1")).toMatchObject({ pre: "rc1" });
+  });
+
+  it("should return null for text that is not a version", () => {
+    expect(parseJavaVersion("not a version")).toBeNull();
+    expect(parseJavaVersion("")).toBeNull();
+  });
+
+  it("should format versions in JEP 223 and legacy style", () => {
+    expect(formatJavaVersion(parseJavaVersion("21.0.3+9")!)).toBe("21.0.3+9");
+    expect(formatJavaVersion(parseJavaVersion("21.0.0")!)).toBe("21");
+    expect(formatJavaVersion(parseJavaVersion("21.0.3+9")!, { build: false })).toBe("21.0.3");
+    expect(formatJavaVersion(parseJavaVersion("8u452-b09")!, { legacy: true })).toBe("1.8.0_452-b09");
+  });
+
+  it("should order versions", () => {
+    const sorted = ["21.0.3+9", "1.8.0_392", "17.0.11", "17.0.11-ea", "8u452", "21.0.3+10", "11.0.22-zulu"]
+      .map((v) => parseJavaVersion(v)!)
+      .sort(compareJavaVersions)
+      .map((v) => v.raw);
+
+    expect(sorted).toEqual([
+      "1.8.0_392",
+      "8u452",
+      "11.0.22-zulu",
+      "17.0.11-ea",
+      "17.0.11",
+      "21.0.3+9",
+      "21.0.3+10",
+    ]);
+  });
+
+  it("should order SDKMAN versions like their GA release", () => {
+    const [tem, ga, ea] = ["21.0.3-tem", "21.0.3", "21.0.3-ea"].map((v) => parseJavaVersion(v)!);
+    expect(compareJavaVersions(tem!, ga!)).toBe(0);
+    expect(compareJavaVersions(tem!, ea!)).toBeGreaterThan(0);
+  });
+});